@@ -0,0 +1,33 @@
+import 'dotenv/config';
+import { DBController } from "./infrastructure/db_controller";
+
+// Usage: npm run corridors -- [hours], by default the last 24 hours
+const DEFAULT_REPORT_HOURS = 24;
+
+async function main() {
+    const hours = Number(process.argv[2] ?? DEFAULT_REPORT_HOURS);
+    if (!Number.isFinite(hours) || hours <= 0) {
+        throw new Error(`Wrong number of hours: ${process.argv[2]}`);
+    }
+    const tillTime = new Date();
+    const fromTime = new Date(tillTime.getTime() - hours * 60 * 60 * 1000);
+    const dbController = new DBController();
+    try {
+        // The report can be run before the first sync, so the tables are created and migrated the same way as in main
+        await dbController.createTablesIfNotExists();
+        await dbController.madeViews();
+        const rows = await dbController.getCorridorReport(fromTime, tillTime);
+        console.log(`Corridors from ${fromTime.toISOString()} till ${tillTime.toISOString()}`);
+        console.table(rows.map(row => ({
+            "Corridor": `${row.giveChain} -> ${row.takeChain}`,
+            "Orders": row.numOfOrders,
+            "Amount USD": row.amountUsd.toFixed(2),
+            "Percent Fee USD": row.percentFeeUsd.toFixed(2),
+            "Fixed Fee USD": row.fixedFeeUsd.toFixed(2),
+            "Total USD": row.totalAmountUsd.toFixed(2),
+        })));
+    } finally {
+        await dbController.close();
+    }
+}
+main();
@@ -0,0 +1,29 @@
+// DLN chain IDs. They are EVM chain IDs for the most of the chains, but deBridge assigns its own IDs
+// for the chains whose chain ID collides with others or doesn't exist (Solana, 1000000xx chains).
+// AAK: The list is not full, unknown chains are shown by their ID
+export const SOLANA_CHAIN_ID = "7565164";
+
+export const DLN_CHAINS: Record<string, string> = {
+    "1": "Ethereum",
+    "10": "Optimism",
+    "56": "BNB Chain",
+    "137": "Polygon",
+    "8453": "Base",
+    "42161": "Arbitrum",
+    "43114": "Avalanche",
+    "59144": "Linea",
+    [SOLANA_CHAIN_ID]: "Solana",
+    "100000001": "Neon",
+    "100000002": "Gnosis",
+    "100000003": "Lightlink",
+    "100000004": "Metis",
+    "100000005": "Bitrock",
+    "100000014": "Sonic",
+    "100000017": "Abstract",
+    "100000020": "Berachain",
+    "100000022": "HyperEVM",
+};
+
+export function getChainName(chainId: string): string {
+    return DLN_CHAINS[chainId] ?? `Chain ${chainId}`;
+}
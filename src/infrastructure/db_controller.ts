@@ -1,5 +1,11 @@
-import { Pool, Client } from 'pg';
+import { Pool, Client, PoolClient } from 'pg';
 import { OrderInfoResult } from '../interfaces/scrapper_interfaces';
+import { CorridorReportRow, IngestionCursor, StaleOrdersGroup, TokenMetadata } from '../interfaces/infrastructure_interfaces';
+import { DLN_CHAINS } from './chains_registry';
+
+// Fixed fee of DlnSource on Solana is paid in SOL lamports whatever the give token is
+const FIXED_FEE_TOKEN_KEY = 'So11111111111111111111111111111111111111112';
+const FIXED_FEE_DECIMALS = 9;
 
 
 export class DBController {
@@ -11,10 +17,17 @@ export class DBController {
         });
     }
 
+    async close(): Promise<void>{
+        await this.pool.end();
+    }
+
     async createTablesIfNotExists(): Promise<void>{
         await this._createStagingTables();
         await this._createSilverTables();
         await this._createGoldTables();
+        await this._createIngestionTables();
+        await this._createTokenMetadataTables();
+        await this._migrateTables();
         console.log('Tables created successfully');
     }
 
@@ -22,18 +35,23 @@ export class DBController {
         await this.pool.query(`
             CREATE TABLE IF NOT EXISTS staging_orders (
                 id SERIAL PRIMARY KEY,
-                signature VARCHAR(255) NOT NULL UNIQUE,
+                signature VARCHAR(255) NOT NULL,
                 order_id VARCHAR(255) NOT NULL,
-                status VARCHAR(10) NOT NULL,
-                token_key VARCHAR(255) NOT NULL,
-                token_symbol VARCHAR(255) NOT NULL,
-                amount DECIMAL(28, 8) NOT NULL,
-                percent_fee DECIMAL(18, 8) NOT NULL,
-                fixed_fee DECIMAL(18, 8) NOT NULL,
+                status VARCHAR(20) NOT NULL,
+                token_key VARCHAR(255),
+                token_symbol VARCHAR(255),
+                amount NUMERIC NOT NULL,
+                percent_fee NUMERIC NOT NULL,
+                fixed_fee NUMERIC NOT NULL,
+                decimals INTEGER,
+                actor VARCHAR(255),
+                order_details JSONB,
+                extraction_method VARCHAR(20),
+                data_quality_flags JSONB,
                 timestamp TIMESTAMP NOT NULL,
                 add_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
                 is_processed BOOLEAN NOT NULL DEFAULT FALSE,
-            CONSTRAINT amount_less_or_equal_to_zero CHECK (amount > 0),
+            CONSTRAINT amount_less_then_zero CHECK (amount >= 0),
             CONSTRAINT percent_fee_less_then_zero CHECK (percent_fee >= 0),
             CONSTRAINT fixed_fee_less_then_zero CHECK (fixed_fee >= 0),
             CONSTRAINT timestamp_less_or_equal_to_zero CHECK (timestamp > '2015-01-01'::timestamp)
@@ -59,6 +77,12 @@ export class DBController {
             ON staging_orders (is_processed);
         `);
 
+        // One transaction can have several orders and events of the same order
+        await this.pool.query(`
+            CREATE UNIQUE INDEX IF NOT EXISTS idx_staging_orders_signature_order_status
+            ON staging_orders (signature, order_id, status);
+        `);
+
         await this.pool.query(`
             CREATE UNIQUE INDEX IF NOT EXISTS idx_staging_prices_token_from_time 
             ON staging_prices (token_key, from_time);
@@ -72,26 +96,30 @@ export class DBController {
             CREATE TABLE IF NOT EXISTS silver_tokens (
                 id SERIAL PRIMARY KEY,
                 token_key VARCHAR(255) NOT NULL UNIQUE,
-                token_symbol VARCHAR(255) NOT NULL UNIQUE,
+                token_symbol VARCHAR(255) NOT NULL,
+                display_label VARCHAR(255) NOT NULL,
                 add_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
             );
         `);
         await this.pool.query(`
             CREATE TABLE IF NOT EXISTS silver_order_status (
                 id SERIAL PRIMARY KEY,
-                status VARCHAR(10) NOT NULL UNIQUE
+                status VARCHAR(20) NOT NULL UNIQUE
             );
         `);
         await this.pool.query(`
             CREATE TABLE IF NOT EXISTS silver_orders (
                 id SERIAL PRIMARY KEY,
-                signature VARCHAR(255) NOT NULL UNIQUE,
+                signature VARCHAR(255) NOT NULL,
                 order_id VARCHAR(255) NOT NULL,
-                amount DECIMAL(28, 8) NOT NULL,
-                percent_fee DECIMAL(18, 8) NOT NULL,
-                fixed_fee DECIMAL(18, 8) NOT NULL,
-                token_id INTEGER NOT NULL,
+                amount NUMERIC NOT NULL,
+                percent_fee NUMERIC NOT NULL,
+                fixed_fee NUMERIC NOT NULL,
+                token_id INTEGER,
                 status_id INTEGER NOT NULL,
+                actor VARCHAR(255),
+                extraction_method VARCHAR(20),
+                data_quality_flags JSONB,
                 timestamp TIMESTAMP NOT NULL,
                 add_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
                 FOREIGN KEY (token_id) REFERENCES silver_tokens (id),
@@ -112,16 +140,114 @@ export class DBController {
             );
         `);
 
+        // History of amount patches, the last patch of the order holds its final amount
+        await this.pool.query(`
+            CREATE TABLE IF NOT EXISTS order_amount_patches (
+                id SERIAL PRIMARY KEY,
+                signature VARCHAR(255) NOT NULL,
+                order_id VARCHAR(255) NOT NULL,
+                side VARCHAR(10) NOT NULL,
+                final_amount NUMERIC NOT NULL,
+                final_percent_fee NUMERIC,
+                token_id INTEGER NOT NULL,
+                timestamp TIMESTAMP NOT NULL,
+                add_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                UNIQUE (signature, order_id, side),
+                FOREIGN KEY (token_id) REFERENCES silver_tokens (id)
+            );
+        `);
+
+        // DLN chain IDs with human names
+        await this.pool.query(`
+            CREATE TABLE IF NOT EXISTS silver_chains (
+                chain_id NUMERIC(78, 0) PRIMARY KEY,
+                chain_name VARCHAR(255) NOT NULL
+            );
+        `);
+        await this.pool.query(`
+            INSERT INTO silver_chains (chain_id, chain_name)
+            SELECT * FROM UNNEST($1::numeric[], $2::text[])
+            ON CONFLICT (chain_id) DO UPDATE SET chain_name = EXCLUDED.chain_name;
+        `, [Object.keys(DLN_CHAINS), Object.values(DLN_CHAINS)]);
+
+        // Full order of the created orders. Addresses are hex, Solana addresses are also base58
+        await this.pool.query(`
+            CREATE TABLE IF NOT EXISTS silver_order_details (
+                id SERIAL PRIMARY KEY,
+                order_id VARCHAR(255) NOT NULL UNIQUE,
+                signature VARCHAR(255) NOT NULL,
+                maker_order_nonce NUMERIC(20, 0) NOT NULL,
+                maker_src VARCHAR(255) NOT NULL,
+                maker_src_base58 VARCHAR(64),
+                give_chain_id NUMERIC(78, 0) NOT NULL,
+                give_token_address VARCHAR(255) NOT NULL,
+                give_token_address_base58 VARCHAR(64),
+                give_amount NUMERIC(78, 0) NOT NULL,
+                take_chain_id NUMERIC(78, 0) NOT NULL,
+                take_token_address VARCHAR(255) NOT NULL,
+                take_token_address_base58 VARCHAR(64),
+                take_amount NUMERIC(78, 0) NOT NULL,
+                receiver_dst VARCHAR(255) NOT NULL,
+                receiver_dst_base58 VARCHAR(64),
+                give_patch_authority_src VARCHAR(255) NOT NULL,
+                give_patch_authority_src_base58 VARCHAR(64),
+                order_authority_address_dst VARCHAR(255) NOT NULL,
+                order_authority_address_dst_base58 VARCHAR(64),
+                allowed_taker_dst VARCHAR(255),
+                allowed_taker_dst_base58 VARCHAR(64),
+                allowed_cancel_beneficiary_src VARCHAR(255),
+                allowed_cancel_beneficiary_src_base58 VARCHAR(64),
+                external_call_shortcut VARCHAR(64),
+                timestamp TIMESTAMP NOT NULL,
+                add_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+            );
+        `);
+
+        // One row per order with the timestamps of every step, refreshed in convertMainStagingTableToSilver
+        await this.pool.query(`
+            CREATE TABLE IF NOT EXISTS silver_order_lifecycle (
+                order_id VARCHAR(255) PRIMARY KEY,
+                created_signature VARCHAR(255),
+                created_at TIMESTAMP,
+                created_amount NUMERIC,
+                created_token_id INTEGER,
+                fulfilled_signature VARCHAR(255),
+                fulfilled_at TIMESTAMP,
+                taker VARCHAR(255),
+                fulfilled_amount NUMERIC,
+                fulfilled_token_id INTEGER,
+                unlock_sent_at TIMESTAMP,
+                unlocked_at TIMESTAMP,
+                cancelled_at TIMESTAMP,
+                cancel_sent_at TIMESTAMP,
+                cancel_claimed_at TIMESTAMP,
+                state VARCHAR(20) NOT NULL,
+                updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (created_token_id) REFERENCES silver_tokens (id),
+                FOREIGN KEY (fulfilled_token_id) REFERENCES silver_tokens (id)
+            );
+        `);
+
         // Silver indexes
         await this.pool.query(`
             CREATE INDEX IF NOT EXISTS idx_silver_orders_token_id_timestamp 
             ON silver_orders (token_id, timestamp);
         `);
+
+        await this.pool.query(`
+            CREATE INDEX IF NOT EXISTS idx_order_amount_patches_order_id_side_timestamp
+            ON order_amount_patches (order_id, side, timestamp);
+        `);
         
         await this.pool.query(`
             CREATE UNIQUE INDEX IF NOT EXISTS idx_silver_prices_token_from_time 
             ON silver_prices (token_id, from_time);
         `);
+        // The same key as in staging, one transaction can fill several orders
+        await this.pool.query(`
+            CREATE UNIQUE INDEX IF NOT EXISTS idx_silver_orders_signature_order_status
+            ON silver_orders (signature, order_id, status_id);
+        `);
         console.log('Silver table created');
     }
 
@@ -131,6 +257,167 @@ export class DBController {
         return;
     }
     
+    private async _createIngestionTables(): Promise<void>{
+        // AAK: Oldest and newest handled transaction for each program. Staging rows are removed
+        // by clearStagingTables, so we can't use them to find the resume point.
+        await this.pool.query(`
+            CREATE TABLE IF NOT EXISTS ingestion_cursors (
+                program_id VARCHAR(255) PRIMARY KEY,
+                oldest_signature VARCHAR(255) NOT NULL,
+                oldest_slot BIGINT NOT NULL,
+                newest_signature VARCHAR(255) NOT NULL,
+                newest_slot BIGINT NOT NULL,
+                updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+            );
+        `);
+        console.log('Ingestion tables created');
+    }
+
+    private async _createTokenMetadataTables(): Promise<void>{
+        // Persistent cache of TokensInfoCache, so the remote sources are not called again on every run
+        await this.pool.query(`
+            CREATE TABLE IF NOT EXISTS token_metadata (
+                mint VARCHAR(255) PRIMARY KEY,
+                symbol VARCHAR(255) NOT NULL,
+                name VARCHAR(255),
+                decimals INTEGER NOT NULL,
+                token_program VARCHAR(255),
+                source VARCHAR(20) NOT NULL,
+                fetched_at TIMESTAMP NOT NULL
+            );
+        `);
+        console.log('Token metadata tables created');
+    }
+
+    private async _migrateTables(): Promise<void>{
+        // AAK: CREATE TABLE IF NOT EXISTS doesn't change tables of the existing databases,
+        // so every change of the old tables must be repeated here. All queries must be idempotent.
+        // AAK: Postgres doesn't change the type of a column used by a view even to the same type, so such columns
+        // are changed only if they are old, the gold views are dropped before and made again at the end
+        let isViewsDropped = false;
+        await this.pool.query(`
+            ALTER TABLE staging_orders ALTER COLUMN status TYPE VARCHAR(20);
+        `);
+        const shortStatus = await this.pool.query(`
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'silver_order_status' AND column_name = 'status' AND character_maximum_length < 20;
+        `);
+        if (shortStatus.rows.length > 0) {
+            await this.pool.query(`
+                DROP VIEW IF EXISTS gold_orders_view, gold_corridors_view, gold_fill_latency_view, gold_order_latency_view;
+                ALTER TABLE silver_order_status ALTER COLUMN status TYPE VARCHAR(20);
+            `);
+            isViewsDropped = true;
+        }
+        // Cancellations on the destination chain have the canceler and may have no token and amount
+        await this.pool.query(`
+            ALTER TABLE staging_orders ADD COLUMN IF NOT EXISTS actor VARCHAR(255);
+            ALTER TABLE staging_orders ALTER COLUMN token_key DROP NOT NULL;
+            ALTER TABLE staging_orders ALTER COLUMN token_symbol DROP NOT NULL;
+        `);
+        // AAK: Adding the check scans staging_orders under an exclusive lock, so it's done only for the old constraint
+        const amountConstraints = await this.pool.query(`
+            SELECT constraint_name FROM information_schema.table_constraints
+            WHERE table_name = 'staging_orders' AND constraint_name IN ('amount_less_or_equal_to_zero', 'amount_less_then_zero');
+        `);
+        const amountConstraintNames = amountConstraints.rows.map(row => row.constraint_name);
+        if (amountConstraintNames.includes('amount_less_or_equal_to_zero') || !amountConstraintNames.includes('amount_less_then_zero')) {
+            await this.pool.query(`
+                ALTER TABLE staging_orders DROP CONSTRAINT IF EXISTS amount_less_or_equal_to_zero;
+                ALTER TABLE staging_orders DROP CONSTRAINT IF EXISTS amount_less_then_zero;
+                ALTER TABLE staging_orders ADD CONSTRAINT amount_less_then_zero CHECK (amount >= 0);
+            `);
+        }
+        await this.pool.query(`
+            ALTER TABLE staging_orders ADD COLUMN IF NOT EXISTS order_details JSONB;
+        `);
+        // Many mints share a symbol, so the symbol is not unique and tokens are shown by display_label.
+        // AAK: Gold views use display_label, the views of the old databases are made after it is added
+        await this.pool.query(`
+            ALTER TABLE silver_tokens DROP CONSTRAINT IF EXISTS silver_tokens_token_symbol_key;
+            ALTER TABLE silver_tokens ADD COLUMN IF NOT EXISTS display_label VARCHAR(255);
+        `);
+        // SOL is always in silver_tokens, so its prices are downloaded for the fixed fees of the orders in other tokens
+        await this.pool.query(`
+            INSERT INTO silver_tokens (token_key, token_symbol, display_label) VALUES ($1, 'SOL', 'SOL')
+            ON CONFLICT (token_key) DO NOTHING;
+        `, [FIXED_FEE_TOKEN_KEY]);
+        await this._refreshTokenLabels(this.pool);
+        await this.pool.query(`
+            ALTER TABLE silver_tokens ALTER COLUMN display_label SET NOT NULL;
+        `);
+        // Signature is not unique in staging anymore, rows are unique by idx_staging_orders_signature_order_status
+        await this.pool.query(`
+            ALTER TABLE staging_orders DROP CONSTRAINT IF EXISTS staging_orders_signature_key;
+        `);
+        // Staging keeps raw integer amounts and decimals of the token, they are scaled in convertMainStagingTableToSilver.
+        // AAK: Rows saved before have NULL decimals and already scaled amounts, so they are scaled by 0
+        await this.pool.query(`
+            ALTER TABLE staging_orders ADD COLUMN IF NOT EXISTS decimals INTEGER;
+            ALTER TABLE staging_orders ALTER COLUMN amount TYPE NUMERIC, ALTER COLUMN percent_fee TYPE NUMERIC, ALTER COLUMN fixed_fee TYPE NUMERIC;
+        `);
+        // Silver amounts had DECIMAL(28, 8) that rounded 18-decimals tokens. Gold views depend on these columns
+        const limitedAmount = await this.pool.query(`
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'silver_orders' AND column_name = 'amount' AND numeric_scale IS NOT NULL;
+        `);
+        if (limitedAmount.rows.length > 0) {
+            await this.pool.query(`
+                DROP VIEW IF EXISTS gold_orders_view, gold_corridors_view, gold_fill_latency_view, gold_order_latency_view;
+                ALTER TABLE silver_orders ALTER COLUMN amount TYPE NUMERIC, ALTER COLUMN percent_fee TYPE NUMERIC, ALTER COLUMN fixed_fee TYPE NUMERIC;
+                ALTER TABLE order_amount_patches ALTER COLUMN final_amount TYPE NUMERIC, ALTER COLUMN final_percent_fee TYPE NUMERIC;
+                ALTER TABLE silver_order_lifecycle ALTER COLUMN created_amount TYPE NUMERIC, ALTER COLUMN fulfilled_amount TYPE NUMERIC;
+            `);
+            isViewsDropped = true;
+        }
+        // AAK: The lifecycle backfill below reads silver_orders.actor, so it is added before
+        await this.pool.query(`
+            ALTER TABLE silver_orders ADD COLUMN IF NOT EXISTS actor VARCHAR(255);
+            ALTER TABLE silver_orders ALTER COLUMN token_id DROP NOT NULL;
+        `);
+        // Lifecycle of the orders that were saved before silver_order_lifecycle appeared
+        const lifecycle = await this.pool.query(`
+            SELECT EXISTS (SELECT 1 FROM silver_order_lifecycle) AS is_filled;
+        `);
+        if (!lifecycle.rows[0]?.is_filled) {
+            await this._refreshOrderLifecycle(this.pool, null);
+        }
+        // Filled amounts can be taken from the transfer instruction or from the balance change of the receiver
+        await this.pool.query(`
+            ALTER TABLE staging_orders ADD COLUMN IF NOT EXISTS extraction_method VARCHAR(20);
+            ALTER TABLE silver_orders ADD COLUMN IF NOT EXISTS extraction_method VARCHAR(20);
+        `);
+        // Unique signature of silver_orders kept only one event of a transaction. Processed staging rows that were
+        // skipped by it are returned to staging, so the next convertMainStagingTableToSilver moves them.
+        // AAK: Events lost before staging got the composite key can be restored only by scraping the transactions again
+        const signatureKey = await this.pool.query(`
+            SELECT 1 FROM information_schema.table_constraints
+            WHERE table_name = 'silver_orders' AND constraint_name = 'silver_orders_signature_key';
+        `);
+        if (signatureKey.rows.length > 0) {
+            await this.pool.query(`
+                ALTER TABLE silver_orders DROP CONSTRAINT silver_orders_signature_key;
+                UPDATE staging_orders sto SET is_processed = FALSE
+                WHERE sto.is_processed = TRUE
+                AND sto.status NOT IN ('GIVE_PATCHED', 'TAKE_PATCHED')
+                AND NOT EXISTS (
+                    SELECT 1 FROM silver_orders so
+                    INNER JOIN silver_order_status st ON so.status_id = st.id
+                    WHERE so.signature = sto.signature AND so.order_id = sto.order_id AND st.status = sto.status
+                );
+            `);
+        }
+        // Rows made from truncated logs or from instruction data are flagged
+        await this.pool.query(`
+            ALTER TABLE staging_orders ADD COLUMN IF NOT EXISTS data_quality_flags JSONB;
+            ALTER TABLE silver_orders ADD COLUMN IF NOT EXISTS data_quality_flags JSONB;
+        `);
+        if (isViewsDropped) {
+            await this.madeViews();
+        }
+        console.log('Tables migrated');
+    }
+
     async clearStagingTables(): Promise<void>{
         const client = await this.pool.connect();
         try {
@@ -154,37 +441,38 @@ export class DBController {
         }
     }
 
-    async saveBatchToDB(batch: OrderInfoResult[]): Promise<void>{
-        const MAX_DECIMAL_VALUE = 10 ** 20 - 10 ** -8;
+    async saveBatchToDB(batch: OrderInfoResult[], programId?: string): Promise<void>{
         const client = await this.pool.connect();
         const signatures = batch.map(e => e.signature);
         const ordersIds = batch.map(e => e.orderId);
         const statuses = batch.map(e => e.status.toUpperCase());
-        const amounts = batch.map(e => {
-            const amount = e.amount;
-            if (amount > MAX_DECIMAL_VALUE) {
-                throw new Error(`Amount ${amount} is greater than MAX_DECIMAL_VALUE ${MAX_DECIMAL_VALUE} for symbol ${e.tokenSymbol} and signature ${e.signature}`);
-            }
-            return amount;
-        });
+        const amounts = batch.map(e => e.amount);
+        const decimals = batch.map(e => e.decimals);
         const tokenKeys = batch.map(e => e.tokenKey);
-        const tokenSymbols = batch.map(e => e.tokenSymbol.toUpperCase());
+        const tokenSymbols = batch.map(e => e.tokenSymbol?.toUpperCase() ?? null);
         const timestamps = batch.map(e => new Date(e.timestamp * 1000));
         const percentFees = batch.map(e => e.percentFee);
         const fixedFees = batch.map(e => e.fixedFee);
+        const actors = batch.map(e => e.actor ?? null);
+        const orderDetails = batch.map(e => e.details ? JSON.stringify(e.details) : null);
+        const extractionMethods = batch.map(e => e.extractionMethod ?? null);
+        const dataQualityFlags = batch.map(e => e.dataQualityFlags ? JSON.stringify(e.dataQualityFlags) : null);
 
       
         const query = `
           INSERT INTO staging_orders (
-            signature, order_id, status, token_key, token_symbol, amount, percent_fee, fixed_fee, timestamp
+            signature, order_id, status, token_key, token_symbol, amount, percent_fee, fixed_fee, timestamp, actor, order_details, decimals, extraction_method, data_quality_flags
           ) 
-          SELECT * FROM UNNEST($1::text[], $2::text[], $3::text[], $4::text[], $5::text[], $6::numeric[], $7::numeric[], $8::numeric[], $9::timestamptz[])
-          ON CONFLICT (signature) DO NOTHING;
+          SELECT * FROM UNNEST($1::text[], $2::text[], $3::text[], $4::text[], $5::text[], $6::numeric[], $7::numeric[], $8::numeric[], $9::timestamptz[], $10::text[], $11::jsonb[], $12::int[], $13::text[], $14::jsonb[])
+          ON CONFLICT (signature, order_id, status) DO NOTHING;
         `;
       
         try {
           await client.query('BEGIN');
-          await client.query(query, [signatures, ordersIds, statuses, tokenKeys, tokenSymbols, amounts, percentFees, fixedFees, timestamps]);
+          await client.query(query, [signatures, ordersIds, statuses, tokenKeys, tokenSymbols, amounts, percentFees, fixedFees, timestamps, actors, orderDetails, decimals, extractionMethods, dataQualityFlags]);
+          if (programId && batch.length > 0) {
+            await this._updateIngestionCursor(client, programId, batch);
+          }
           await client.query('COMMIT');
           console.log(`Successfully saved ${batch.length} records to Staging`);
         } 
@@ -195,7 +483,7 @@ export class DBController {
           if (e.code === '22003') {
             console.error('Decimal overflow detected. Checking values:');
             batch.forEach((item, index) => {
-            console.error(`Item ${index}: amount=${item.amount}, percentFee=${item.percentFee}, fixedFee=${item.fixedFee}, tokenSymbol=${item.tokenSymbol}, signature=${item.signature}`);
+            console.error(`Item ${index}: amount=${item.amount}, decimals=${item.decimals}, percentFee=${item.percentFee}, fixedFee=${item.fixedFee}, tokenSymbol=${item.tokenSymbol}, signature=${item.signature}`);
             });
           }
           throw e;
@@ -205,8 +493,90 @@ export class DBController {
         }
       }
 
-    async getLastDBRecord(): Promise<OrderInfoResult | null>{
+    async saveIngestionCursor(programId: string, batch: OrderInfoResult[]): Promise<void>{
+        // Moves the cursor over records that were saved before without it
+        await this._updateIngestionCursor(this.pool, programId, batch);
+    }
+
+    private async _updateIngestionCursor(client: Pool | PoolClient, programId: string, batch: OrderInfoResult[]): Promise<void>{
+        // AAK: Several transactions can be in the same slot. The batch comes in processing order,
+        // so on equal slots the later record is the one we stopped at.
+        const oldest = batch.reduce((acc, e) => e.slot <= acc.slot ? e : acc);
+        const newest = batch.reduce((acc, e) => e.slot >= acc.slot ? e : acc);
+        await client.query(`
+            INSERT INTO ingestion_cursors (program_id, oldest_signature, oldest_slot, newest_signature, newest_slot)
+            VALUES ($1, $2, $3, $4, $5)
+            ON CONFLICT (program_id) DO UPDATE SET
+                oldest_signature = CASE WHEN EXCLUDED.oldest_slot <= ingestion_cursors.oldest_slot
+                    THEN EXCLUDED.oldest_signature ELSE ingestion_cursors.oldest_signature END,
+                oldest_slot = LEAST(EXCLUDED.oldest_slot, ingestion_cursors.oldest_slot),
+                newest_signature = CASE WHEN EXCLUDED.newest_slot >= ingestion_cursors.newest_slot
+                    THEN EXCLUDED.newest_signature ELSE ingestion_cursors.newest_signature END,
+                newest_slot = GREATEST(EXCLUDED.newest_slot, ingestion_cursors.newest_slot),
+                updated_at = CURRENT_TIMESTAMP;
+        `, [programId, oldest.signature, oldest.slot, newest.signature, newest.slot]);
+    }
+
+    async getIngestionCursor(programId: string): Promise<IngestionCursor | null>{
+        const result = await this.pool.query(`
+            SELECT program_id, oldest_signature, oldest_slot, newest_signature, newest_slot
+            FROM ingestion_cursors WHERE program_id = $1;
+        `, [programId]);
+        const row = result.rows[0];
+        if (!row) {
+            return null;
+        }
+        return {
+            programId: row.program_id,
+            oldestSignature: row.oldest_signature,
+            oldestSlot: Number(row.oldest_slot),
+            newestSignature: row.newest_signature,
+            newestSlot: Number(row.newest_slot),
+        };
+    }
+
+    async getTokenMetadata(mint: string): Promise<TokenMetadata | null>{
+        const result = await this.pool.query(`
+            SELECT mint, symbol, name, decimals, token_program, source, fetched_at
+            FROM token_metadata WHERE mint = $1;
+        `, [mint]);
+        const row = result.rows[0];
+        if (!row) {
+            return null;
+        }
+        return {
+            mint: row.mint,
+            symbol: row.symbol,
+            name: row.name,
+            decimals: Number(row.decimals),
+            tokenProgram: row.token_program,
+            source: row.source,
+            fetchedAt: new Date(row.fetched_at),
+        };
+    }
+
+    async saveTokenMetadata(metadata: TokenMetadata): Promise<void>{
+        await this.pool.query(`
+            INSERT INTO token_metadata (mint, symbol, name, decimals, token_program, source, fetched_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7)
+            ON CONFLICT (mint) DO UPDATE SET
+                symbol = EXCLUDED.symbol,
+                name = EXCLUDED.name,
+                decimals = EXCLUDED.decimals,
+                token_program = EXCLUDED.token_program,
+                source = EXCLUDED.source,
+                fetched_at = EXCLUDED.fetched_at;
+        `, [metadata.mint, metadata.symbol, metadata.name, metadata.decimals, metadata.tokenProgram, metadata.source, metadata.fetchedAt]);
+    }
+
+    async getLastDBRecord(orderStatus?: string): Promise<OrderInfoResult | null>{
         // Return latest record from staging table
+        if (orderStatus) {
+            const result = await this.pool.query(`
+                SELECT * FROM staging_orders WHERE status = $1 ORDER BY timestamp DESC LIMIT 1;
+            `, [orderStatus]);
+            return result.rows[0] as OrderInfoResult | null;
+        }
         const result = await this.pool.query(`
             SELECT * FROM staging_orders ORDER BY timestamp DESC LIMIT 1;
         `);
@@ -233,29 +603,77 @@ export class DBController {
         const client = await this.pool.connect();
         try {
             await client.query('BEGIN');
+            // Symbol is the mint if metadata providers failed, so such a symbol is replaced by the real one of a later row
             const updateSilverTokensQuery = `
-                INSERT INTO silver_tokens (token_key, token_symbol) SELECT DISTINCT token_key, token_symbol FROM staging_orders WHERE is_processed = FALSE
-                ON CONFLICT (token_key) DO NOTHING;
+                INSERT INTO silver_tokens (token_key, token_symbol, display_label)
+                SELECT DISTINCT ON (token_key) token_key, token_symbol, token_symbol FROM staging_orders WHERE is_processed = FALSE AND token_key IS NOT NULL
+                ORDER BY token_key, token_symbol = UPPER(token_key)
+                ON CONFLICT (token_key) DO UPDATE SET token_symbol = EXCLUDED.token_symbol, display_label = EXCLUDED.display_label
+                WHERE silver_tokens.token_symbol = UPPER(silver_tokens.token_key) AND EXCLUDED.token_symbol <> UPPER(EXCLUDED.token_key);
             `;
             const updateSilverOrderStatusQuery = `
                 INSERT INTO silver_order_status (status) SELECT DISTINCT status FROM staging_orders WHERE is_processed = FALSE
                 ON CONFLICT (status) DO NOTHING;
             `;
             await client.query(updateSilverTokensQuery);
+            await this._refreshTokenLabels(client);
             await client.query(updateSilverOrderStatusQuery);
-            await client.query(`
+            const movedOrders = await client.query(`
                 WITH moved_orders AS (
                     UPDATE staging_orders SET is_processed = TRUE
                     WHERE is_processed = FALSE
-                    RETURNING *
+                    -- Raw amounts are shifted by decimals through the exponent notation, NUMERIC division would round them.
+                    -- Fixed fee is in SOL lamports, so it has the decimals of SOL and not of the token of the order
+                    RETURNING *,
+                        (amount::text || 'e-' || COALESCE(decimals, 0))::numeric AS scaled_amount,
+                        (percent_fee::text || 'e-' || COALESCE(decimals, 0))::numeric AS scaled_percent_fee,
+                        (fixed_fee::text || 'e-' || CASE WHEN decimals IS NULL THEN 0 ELSE ${FIXED_FEE_DECIMALS} END)::numeric AS scaled_fixed_fee
+                ), moved_patches AS (
+                    -- Patches don't create new orders, they change amounts of the existing ones
+                    INSERT INTO order_amount_patches (signature, order_id, side, final_amount, final_percent_fee, token_id, timestamp)
+                    SELECT mo.signature, mo.order_id,
+                        CASE mo.status WHEN 'GIVE_PATCHED' THEN 'GIVE' ELSE 'TAKE' END,
+                        mo.scaled_amount,
+                        CASE mo.status WHEN 'GIVE_PATCHED' THEN mo.scaled_percent_fee END,
+                        tk.id, mo.timestamp
+                    FROM moved_orders mo
+                    JOIN silver_tokens tk ON mo.token_key = tk.token_key
+                    WHERE mo.status IN ('GIVE_PATCHED', 'TAKE_PATCHED')
+                    ON CONFLICT (signature, order_id, side) DO NOTHING
+                ), moved_details AS (
+                    INSERT INTO silver_order_details (
+                        order_id, signature, maker_order_nonce, maker_src, maker_src_base58,
+                        give_chain_id, give_token_address, give_token_address_base58, give_amount,
+                        take_chain_id, take_token_address, take_token_address_base58, take_amount,
+                        receiver_dst, receiver_dst_base58, give_patch_authority_src, give_patch_authority_src_base58,
+                        order_authority_address_dst, order_authority_address_dst_base58,
+                        allowed_taker_dst, allowed_taker_dst_base58, allowed_cancel_beneficiary_src, allowed_cancel_beneficiary_src_base58,
+                        external_call_shortcut, timestamp
+                    )
+                    SELECT mo.order_id, mo.signature, (mo.order_details->>'makerOrderNonce')::numeric, mo.order_details->'makerSrc'->>'hex', mo.order_details->'makerSrc'->>'base58',
+                        (mo.order_details->>'giveChainId')::numeric, mo.order_details->'giveTokenAddress'->>'hex', mo.order_details->'giveTokenAddress'->>'base58', (mo.order_details->>'giveAmount')::numeric,
+                        (mo.order_details->>'takeChainId')::numeric, mo.order_details->'takeTokenAddress'->>'hex', mo.order_details->'takeTokenAddress'->>'base58', (mo.order_details->>'takeAmount')::numeric,
+                        mo.order_details->'receiverDst'->>'hex', mo.order_details->'receiverDst'->>'base58', mo.order_details->'givePatchAuthoritySrc'->>'hex', mo.order_details->'givePatchAuthoritySrc'->>'base58',
+                        mo.order_details->'orderAuthorityAddressDst'->>'hex', mo.order_details->'orderAuthorityAddressDst'->>'base58',
+                        mo.order_details->'allowedTakerDst'->>'hex', mo.order_details->'allowedTakerDst'->>'base58', mo.order_details->'allowedCancelBeneficiarySrc'->>'hex', mo.order_details->'allowedCancelBeneficiarySrc'->>'base58',
+                        mo.order_details->>'externalCallShortcut', mo.timestamp
+                    FROM moved_orders mo
+                    WHERE mo.order_details IS NOT NULL
+                    ON CONFLICT (order_id) DO NOTHING
                 )
-                INSERT INTO silver_orders (signature, order_id, token_id, amount, percent_fee, fixed_fee, status_id, timestamp)
-                SELECT mo.signature, mo.order_id, tk.id, mo.amount, mo.percent_fee, mo.fixed_fee, st.id, mo.timestamp
+                INSERT INTO silver_orders (signature, order_id, token_id, amount, percent_fee, fixed_fee, status_id, timestamp, actor, extraction_method, data_quality_flags)
+                SELECT mo.signature, mo.order_id, tk.id, mo.scaled_amount, mo.scaled_percent_fee, mo.scaled_fixed_fee, st.id, mo.timestamp, mo.actor, mo.extraction_method, mo.data_quality_flags
                 FROM moved_orders mo
-                JOIN silver_tokens tk ON mo.token_key = tk.token_key
+                LEFT JOIN silver_tokens tk ON mo.token_key = tk.token_key
                 JOIN silver_order_status st ON mo.status = st.status
-                ON CONFLICT (signature) DO NOTHING;
+                WHERE mo.status NOT IN ('GIVE_PATCHED', 'TAKE_PATCHED')
+                ON CONFLICT (signature, order_id, status_id) DO NOTHING
+                RETURNING order_id;
             `);
+            const orderIds = [...new Set<string>(movedOrders.rows.map(row => row.order_id))];
+            if (orderIds.length > 0) {
+                await this._refreshOrderLifecycle(client, orderIds);
+            }
             await client.query('COMMIT');
         } catch (e: any) {
             await client.query('ROLLBACK');
@@ -266,13 +684,182 @@ export class DBController {
         }
     }
 
+    private async _refreshTokenLabels(client: Pool | PoolClient): Promise<void>{
+        // Label is the symbol if no other token has it. Tokens with the same symbol get the name from token_metadata
+        // in brackets, e.g. `USDC (Wormhole)` with the name from the overrides, or the shortened mint if names don't differ.
+        // Names that already start with the symbol (e.g. `USDC (Wormhole)`) are used without it, so the label isn't nested.
+        // AAK: A new token with a taken symbol changes the label of the old one, so all labels are refreshed
+        await client.query(`
+            WITH token_metadata_names AS (
+                SELECT tk.id, tk.token_key, tk.token_symbol, TRIM(tm.name) AS metadata_name,
+                    CASE
+                        WHEN LEFT(UPPER(TRIM(tm.name)), LENGTH(tk.token_symbol)) = UPPER(tk.token_symbol)
+                            AND SUBSTRING(TRIM(tm.name) FROM LENGTH(tk.token_symbol) + 1) !~ '^[[:alnum:]]'
+                        THEN TRIM(BOTH ' -' FROM SUBSTRING(TRIM(tm.name) FROM LENGTH(tk.token_symbol) + 1))
+                    END AS name_without_symbol
+                FROM silver_tokens tk
+                LEFT JOIN token_metadata tm ON tk.token_key = tm.mint
+            ), token_names AS (
+                SELECT id, token_key, token_symbol,
+                    NULLIF(CASE
+                        WHEN name_without_symbol LIKE '(%)' THEN SUBSTRING(name_without_symbol FROM 2 FOR LENGTH(name_without_symbol) - 2)
+                        ELSE COALESCE(name_without_symbol, metadata_name)
+                    END, '') AS token_name,
+                    COUNT(*) OVER (PARTITION BY token_symbol) AS num_of_symbol_tokens
+                FROM token_metadata_names
+            ), token_labels AS (
+                SELECT id, LEFT(CASE
+                    WHEN num_of_symbol_tokens = 1 THEN token_symbol
+                    WHEN token_name IS NOT NULL AND UPPER(token_name) <> token_symbol
+                        AND COUNT(*) OVER (PARTITION BY token_symbol, token_name) = 1 THEN token_symbol || ' (' || token_name || ')'
+                    ELSE token_symbol || ' (' || LEFT(token_key, 4) || '...' || RIGHT(token_key, 4) || ')'
+                END, 255) AS display_label
+                FROM token_names
+            )
+            UPDATE silver_tokens tk SET display_label = tl.display_label
+            FROM token_labels tl
+            WHERE tk.id = tl.id AND tk.display_label IS DISTINCT FROM tl.display_label;
+        `);
+    }
+
+    private async _refreshOrderLifecycle(client: Pool | PoolClient, orderIds: string[] | null): Promise<void>{
+        // Lifecycle is rebuilt from all silver rows of the orders, so the refresh doesn't depend on the order of events.
+        // null means all orders.
+        await client.query(`
+            WITH order_events AS (
+                SELECT so.order_id,
+                    MIN(so.timestamp) FILTER (WHERE st.status = 'CREATED') AS created_at,
+                    (ARRAY_AGG(so.signature ORDER BY so.timestamp) FILTER (WHERE st.status = 'CREATED'))[1] AS created_signature,
+                    (ARRAY_AGG(so.amount ORDER BY so.timestamp) FILTER (WHERE st.status = 'CREATED'))[1] AS created_amount,
+                    (ARRAY_AGG(so.token_id ORDER BY so.timestamp) FILTER (WHERE st.status = 'CREATED'))[1] AS created_token_id,
+                    MIN(so.timestamp) FILTER (WHERE st.status = 'FILLED') AS fulfilled_at,
+                    (ARRAY_AGG(so.signature ORDER BY so.timestamp) FILTER (WHERE st.status = 'FILLED'))[1] AS fulfilled_signature,
+                    (ARRAY_AGG(so.actor ORDER BY so.timestamp) FILTER (WHERE st.status = 'FILLED'))[1] AS taker,
+                    (ARRAY_AGG(so.amount ORDER BY so.timestamp) FILTER (WHERE st.status = 'FILLED'))[1] AS fulfilled_amount,
+                    (ARRAY_AGG(so.token_id ORDER BY so.timestamp) FILTER (WHERE st.status = 'FILLED'))[1] AS fulfilled_token_id,
+                    MIN(so.timestamp) FILTER (WHERE st.status = 'UNLOCK_SENT') AS unlock_sent_at,
+                    MIN(so.timestamp) FILTER (WHERE st.status = 'UNLOCKED') AS unlocked_at,
+                    MIN(so.timestamp) FILTER (WHERE st.status = 'CANCELLED') AS cancelled_at,
+                    MIN(so.timestamp) FILTER (WHERE st.status = 'CANCEL_SENT') AS cancel_sent_at,
+                    MIN(so.timestamp) FILTER (WHERE st.status = 'CANCEL_CLAIMED') AS cancel_claimed_at
+                FROM silver_orders so
+                INNER JOIN silver_order_status st ON so.status_id = st.id
+                WHERE $1::text[] IS NULL OR so.order_id = ANY($1::text[])
+                GROUP BY so.order_id
+            )
+            INSERT INTO silver_order_lifecycle (
+                order_id, created_signature, created_at, created_amount, created_token_id,
+                fulfilled_signature, fulfilled_at, taker, fulfilled_amount, fulfilled_token_id,
+                unlock_sent_at, unlocked_at, cancelled_at, cancel_sent_at, cancel_claimed_at, state
+            )
+            SELECT oe.order_id, oe.created_signature, oe.created_at, oe.created_amount, oe.created_token_id,
+                oe.fulfilled_signature, oe.fulfilled_at, oe.taker, oe.fulfilled_amount, oe.fulfilled_token_id,
+                oe.unlock_sent_at, oe.unlocked_at, oe.cancelled_at, oe.cancel_sent_at, oe.cancel_claimed_at,
+                CASE
+                    WHEN oe.unlocked_at IS NOT NULL THEN 'UNLOCKED'
+                    WHEN oe.cancel_claimed_at IS NOT NULL THEN 'CANCEL_CLAIMED'
+                    WHEN oe.unlock_sent_at IS NOT NULL THEN 'UNLOCK_SENT'
+                    WHEN oe.cancel_sent_at IS NOT NULL THEN 'CANCEL_SENT'
+                    WHEN oe.fulfilled_at IS NOT NULL THEN 'FILLED'
+                    WHEN oe.cancelled_at IS NOT NULL THEN 'CANCELLED'
+                    ELSE 'CREATED'
+                END
+            FROM order_events oe
+            ON CONFLICT (order_id) DO UPDATE SET
+                created_signature = EXCLUDED.created_signature,
+                created_at = EXCLUDED.created_at,
+                created_amount = EXCLUDED.created_amount,
+                created_token_id = EXCLUDED.created_token_id,
+                fulfilled_signature = EXCLUDED.fulfilled_signature,
+                fulfilled_at = EXCLUDED.fulfilled_at,
+                taker = EXCLUDED.taker,
+                fulfilled_amount = EXCLUDED.fulfilled_amount,
+                fulfilled_token_id = EXCLUDED.fulfilled_token_id,
+                unlock_sent_at = EXCLUDED.unlock_sent_at,
+                unlocked_at = EXCLUDED.unlocked_at,
+                cancelled_at = EXCLUDED.cancelled_at,
+                cancel_sent_at = EXCLUDED.cancel_sent_at,
+                cancel_claimed_at = EXCLUDED.cancel_claimed_at,
+                state = EXCLUDED.state,
+                updated_at = CURRENT_TIMESTAMP;
+        `, [orderIds]);
+    }
+
+    async getCorridorReport(fromTime: Date, tillTime: Date): Promise<CorridorReportRow[]> {
+        const result = await this.pool.query(`
+            SELECT give_chain, take_chain,
+                SUM(amount_usd) AS amount_usd, SUM(percent_fee_usd) AS percent_fee_usd, SUM(fixed_fee_usd) AS fixed_fee_usd,
+                SUM(total_amount_usd) AS total_amount_usd, SUM(num_of_orders) AS num_of_orders
+            FROM gold_corridors_view
+            WHERE "time" >= $1 AND "time" < $2
+            GROUP BY give_chain, take_chain
+            ORDER BY total_amount_usd DESC;
+        `, [fromTime, tillTime]);
+        return result.rows.map(row => ({
+            giveChain: row.give_chain,
+            takeChain: row.take_chain,
+            amountUsd: Number(row.amount_usd),
+            percentFeeUsd: Number(row.percent_fee_usd),
+            fixedFeeUsd: Number(row.fixed_fee_usd),
+            totalAmountUsd: Number(row.total_amount_usd),
+            numOfOrders: Number(row.num_of_orders),
+        }));
+    }
+
+    async getStaleOrders(olderThan: Date): Promise<StaleOrdersGroup[]> {
+        // Created orders without fill and cancel records.
+        // AAK: Orders to other chains are filled there, for them only the unlock on Solana proves the fill
+        const result = await this.pool.query(`
+            SELECT COALESCE(tk.display_label, 'UNKNOWN') AS symbol,
+                COALESCE(tc.chain_name, 'Chain ' || od.take_chain_id, 'UNKNOWN') AS take_chain,
+                COUNT(*) AS num_of_orders, SUM(COALESCE(lp.final_amount, ol.created_amount)) AS total_amount, MIN(ol.created_at) AS oldest_created_at,
+                ARRAY_AGG(ol.order_id ORDER BY ol.created_at) AS order_ids
+            FROM silver_order_lifecycle ol
+            LEFT JOIN silver_tokens tk ON ol.created_token_id = tk.id
+            LEFT JOIN silver_order_details od ON ol.order_id = od.order_id
+            LEFT JOIN silver_chains tc ON od.take_chain_id = tc.chain_id
+            -- The amount is the last give patch, the same as in the gold views
+            LEFT JOIN LATERAL (
+                SELECT p.final_amount
+                FROM order_amount_patches p
+                WHERE p.order_id = ol.order_id AND p.side = 'GIVE'
+                ORDER BY p.timestamp DESC, p.id DESC
+                LIMIT 1
+            ) lp ON TRUE
+            WHERE ol.created_at < $1
+                AND ol.fulfilled_at IS NULL AND ol.unlock_sent_at IS NULL AND ol.unlocked_at IS NULL
+                AND ol.cancelled_at IS NULL AND ol.cancel_sent_at IS NULL AND ol.cancel_claimed_at IS NULL
+            GROUP BY tk.display_label, od.take_chain_id, tc.chain_name
+            ORDER BY num_of_orders DESC;
+        `, [olderThan]);
+        return result.rows.map(row => ({
+            symbol: row.symbol,
+            takeChain: row.take_chain,
+            numOfOrders: Number(row.num_of_orders),
+            totalAmount: Number(row.total_amount),
+            oldestCreatedAt: row.oldest_created_at,
+            orderIds: row.order_ids,
+        }));
+    }
+
     async getTokenTimeListNotInPriceTable(): Promise<{token_key: string, token_symbol: string, min_time: Date, max_time: Date}[]> {
         const client = await this.pool.connect();
         const result = await client.query(`
             WITH token_time AS (
-                SELECT so.token_id, MIN(DATE_TRUNC('day', so.timestamp)) AS min_time, MAX(DATE_TRUNC('day', so.timestamp)) AS max_time
-                FROM silver_orders so
-                GROUP BY so.token_id
+                SELECT ot.token_id, MIN(ot.min_time) AS min_time, MAX(ot.max_time) AS max_time
+                FROM (
+                    SELECT so.token_id, MIN(DATE_TRUNC('day', so.timestamp)) AS min_time, MAX(DATE_TRUNC('day', so.timestamp)) AS max_time
+                    FROM silver_orders so
+                    GROUP BY so.token_id
+                    UNION ALL
+                    -- Fixed fees are priced by SOL, so SOL prices are needed for the time of all orders with them
+                    SELECT sol.id, MIN(DATE_TRUNC('day', so.timestamp)), MAX(DATE_TRUNC('day', so.timestamp))
+                    FROM silver_orders so
+                    JOIN silver_tokens sol ON sol.token_key = '${FIXED_FEE_TOKEN_KEY}'
+                    WHERE so.fixed_fee > 0
+                    GROUP BY sol.id
+                ) ot
+                GROUP BY ot.token_id
             ),
             token_price_info AS (
                 SELECT p.token_id, MIN(DATE_TRUNC('day', p.from_time)) AS min_time, MAX(DATE_TRUNC('day', p.till_time)) AS max_time
@@ -359,24 +946,123 @@ export class DBController {
             await client.query('BEGIN');
             await client.query(`
                 CREATE OR REPLACE VIEW gold_orders_view AS
-                WITH orders_agg_by_hour AS (
+                WITH final_orders AS (
+                    -- Created orders use the last give patch, cancelled orders use the last take patch
+                    SELECT so.timestamp, so.token_id, so.status_id, so.fixed_fee,
+                        COALESCE(lp.final_amount, so.amount) AS amount,
+                        COALESCE(lp.final_percent_fee, so.percent_fee) AS percent_fee
+                    FROM silver_orders so
+                    INNER JOIN silver_order_status st ON so.status_id = st.id
+                    LEFT JOIN LATERAL (
+                        SELECT p.final_amount, p.final_percent_fee
+                        FROM order_amount_patches p
+                        WHERE p.order_id = so.order_id
+                            AND p.side = CASE st.status WHEN 'CREATED' THEN 'GIVE' WHEN 'CANCELLED' THEN 'TAKE' END
+                        ORDER BY p.timestamp DESC, p.id DESC
+                        LIMIT 1
+                    ) lp ON TRUE
+                ),
+                orders_agg_by_hour AS (
                     SELECT DATE_TRUNC('hour', so.timestamp) AS hour, so.token_id, so.status_id,
                         SUM(so.amount * sp.price_usd) AS amount_usd,
-                        SUM(so.percent_fee * sp.price_usd) AS percent_fee_usd, SUM(so.fixed_fee * sp.price_usd) AS fixed_fee_usd,
-                        SUM((so.amount + so.percent_fee + so.fixed_fee) * sp.price_usd) AS total_amount_usd,
+                        SUM(so.percent_fee * sp.price_usd) AS percent_fee_usd, SUM(so.fixed_fee * sol_p.price_usd) AS fixed_fee_usd,
+                        SUM((so.amount + so.percent_fee) * sp.price_usd + COALESCE(so.fixed_fee * sol_p.price_usd, 0)) AS total_amount_usd,
                         COUNT(*) as num_of_orders
-                    FROM silver_orders so
+                    FROM final_orders so
                     INNER JOIN silver_prices sp ON so.token_id = sp.token_id
+                    -- Fixed fee is paid in SOL, so it is priced by SOL and not by the token of the order
+                    LEFT JOIN silver_tokens sol ON sol.token_key = '${FIXED_FEE_TOKEN_KEY}'
+                    LEFT JOIN silver_prices sol_p ON sol_p.token_id = sol.id
+                        AND DATE_TRUNC('hour', so.timestamp) >= sol_p.from_time AND DATE_TRUNC('hour', so.timestamp) < sol_p.till_time
                     WHERE DATE_TRUNC('hour', so.timestamp) >= sp.from_time AND DATE_TRUNC('hour', so.timestamp) < sp.till_time 
                     GROUP BY so.token_id, so.status_id, DATE_TRUNC('hour', so.timestamp)
                 )
                 -- SELECT oah.hour as "Time", st.status as "Status", tk.token_symbol, oah.amount_usd as "Amount USD", oah.percent_fee_usd as "Percent Fee USD", oah.fixed_fee_usd as "Fixed Fee USD", oah.total_amount_usd as "Total Amount USD", oah.num_of_orders as "Number of Orders"
-                SELECT oah.hour as "time", st.status, tk.token_symbol as "symbol", oah.amount_usd, oah.percent_fee_usd, oah.fixed_fee_usd, oah.total_amount_usd, oah.num_of_orders
+                SELECT oah.hour as "time", st.status, tk.display_label as "symbol", oah.amount_usd, oah.percent_fee_usd, oah.fixed_fee_usd, oah.total_amount_usd, oah.num_of_orders
                 FROM orders_agg_by_hour oah
                 INNER JOIN silver_tokens tk ON oah.token_id = tk.id
                 INNER JOIN silver_order_status st ON oah.status_id = st.id
                 ORDER BY oah.hour
             `);
+            await client.query(`
+                CREATE OR REPLACE VIEW gold_corridors_view AS
+                WITH created_orders AS (
+                    -- Corridor is known only for the orders with the full order details
+                    SELECT so.timestamp, so.token_id, so.fixed_fee, od.give_chain_id, od.take_chain_id,
+                        COALESCE(lp.final_amount, so.amount) AS amount,
+                        COALESCE(lp.final_percent_fee, so.percent_fee) AS percent_fee
+                    FROM silver_orders so
+                    INNER JOIN silver_order_status st ON so.status_id = st.id
+                    INNER JOIN silver_order_details od ON so.order_id = od.order_id
+                    LEFT JOIN LATERAL (
+                        SELECT p.final_amount, p.final_percent_fee
+                        FROM order_amount_patches p
+                        WHERE p.order_id = so.order_id AND p.side = 'GIVE'
+                        ORDER BY p.timestamp DESC, p.id DESC
+                        LIMIT 1
+                    ) lp ON TRUE
+                    WHERE st.status = 'CREATED'
+                ),
+                corridors_agg_by_hour AS (
+                    SELECT DATE_TRUNC('hour', co.timestamp) AS hour, co.give_chain_id, co.take_chain_id,
+                        SUM(co.amount * sp.price_usd) AS amount_usd,
+                        SUM(co.percent_fee * sp.price_usd) AS percent_fee_usd, SUM(co.fixed_fee * sol_p.price_usd) AS fixed_fee_usd,
+                        SUM((co.amount + co.percent_fee) * sp.price_usd + COALESCE(co.fixed_fee * sol_p.price_usd, 0)) AS total_amount_usd,
+                        COUNT(*) as num_of_orders
+                    FROM created_orders co
+                    INNER JOIN silver_prices sp ON co.token_id = sp.token_id
+                    LEFT JOIN silver_tokens sol ON sol.token_key = '${FIXED_FEE_TOKEN_KEY}'
+                    LEFT JOIN silver_prices sol_p ON sol_p.token_id = sol.id
+                        AND DATE_TRUNC('hour', co.timestamp) >= sol_p.from_time AND DATE_TRUNC('hour', co.timestamp) < sol_p.till_time
+                    WHERE DATE_TRUNC('hour', co.timestamp) >= sp.from_time AND DATE_TRUNC('hour', co.timestamp) < sp.till_time
+                    GROUP BY co.give_chain_id, co.take_chain_id, DATE_TRUNC('hour', co.timestamp)
+                )
+                SELECT cah.hour as "time", cah.give_chain_id,
+                    COALESCE(gc.chain_name, 'Chain ' || cah.give_chain_id) AS give_chain,
+                    cah.take_chain_id,
+                    COALESCE(tc.chain_name, 'Chain ' || cah.take_chain_id) AS take_chain,
+                    cah.amount_usd, cah.percent_fee_usd, cah.fixed_fee_usd, cah.total_amount_usd, cah.num_of_orders
+                FROM corridors_agg_by_hour cah
+                LEFT JOIN silver_chains gc ON cah.give_chain_id = gc.chain_id
+                LEFT JOIN silver_chains tc ON cah.take_chain_id = tc.chain_id
+                ORDER BY cah.hour
+            `);
+            // Orders created on Solana are filled on other chains and orders filled on Solana are created on other chains,
+            // so the fill latency is known only if both are in the data. For the orders created on Solana the claimed unlock
+            // is the first proof of the fill, the latency till it includes sendUnlock of the taker and the cross-chain message.
+            // AAK: gold_fill_latency_view had both latencies without the column that tells them apart, so it's replaced
+            await client.query(`
+                DROP VIEW IF EXISTS gold_fill_latency_view;
+                CREATE OR REPLACE VIEW gold_order_latency_view AS
+                WITH order_latency AS (
+                    SELECT 'filled' AS measured_to, ol.created_token_id, ol.order_id,
+                        DATE_TRUNC('hour', ol.fulfilled_at) AS hour,
+                        EXTRACT(EPOCH FROM ol.fulfilled_at - ol.created_at) AS latency_seconds
+                    FROM silver_order_lifecycle ol
+                    WHERE ol.created_at IS NOT NULL AND ol.fulfilled_at IS NOT NULL
+                    UNION ALL
+                    SELECT 'unlocked' AS measured_to, ol.created_token_id, ol.order_id,
+                        DATE_TRUNC('hour', ol.unlocked_at) AS hour,
+                        EXTRACT(EPOCH FROM ol.unlocked_at - ol.created_at) AS latency_seconds
+                    FROM silver_order_lifecycle ol
+                    WHERE ol.created_at IS NOT NULL AND ol.unlocked_at IS NOT NULL
+                )
+                -- Percentiles can't be summed, so they are calculated separately by token and by destination chain
+                SELECT lt.hour as "time", lt.measured_to,
+                    CASE WHEN GROUPING(tk.display_label) = 0 THEN 'token' ELSE 'take_chain' END AS grouped_by,
+                    tk.display_label as "symbol", od.take_chain_id,
+                    CASE WHEN GROUPING(od.take_chain_id) = 0 THEN COALESCE(tc.chain_name, 'Chain ' || od.take_chain_id, 'UNKNOWN') END AS take_chain,
+                    PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY lt.latency_seconds) AS p50_latency_seconds,
+                    PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY lt.latency_seconds) AS p90_latency_seconds,
+                    PERCENTILE_CONT(0.99) WITHIN GROUP (ORDER BY lt.latency_seconds) AS p99_latency_seconds,
+                    COUNT(*) as num_of_orders
+                FROM order_latency lt
+                INNER JOIN silver_tokens tk ON lt.created_token_id = tk.id
+                LEFT JOIN silver_order_details od ON lt.order_id = od.order_id
+                LEFT JOIN silver_chains tc ON od.take_chain_id = tc.chain_id
+                GROUP BY GROUPING SETS ((lt.hour, lt.measured_to, tk.display_label), (lt.hour, lt.measured_to, od.take_chain_id, tc.chain_name))
+                ORDER BY lt.hour
+            `);
             await client.query('COMMIT');
             console.log('Views made successfully');
         } catch (e: any) {
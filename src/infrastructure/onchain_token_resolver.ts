@@ -0,0 +1,131 @@
+import { AccountInfo, Connection, PublicKey } from "@solana/web3.js";
+import { TokenMetadata } from "../interfaces/infrastructure_interfaces";
+
+export const METAPLEX_METADATA_PROGRAM_ID = new PublicKey("metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s");
+const TOKEN_PROGRAM_IDS = ["TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA", "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb"];
+// getMultipleAccountsInfo takes up to 100 accounts, each mint is requested with its Metaplex metadata account
+const MINTS_PER_REQUEST = 50;
+// Mint layout of the token programs: mint authority (36), supply (8), decimals (1), is initialized (1), freeze authority (36)
+const MINT_SIZE = 82;
+const MINT_DECIMALS_OFFSET = 44;
+// Token-2022 mints with extensions are padded to the token account size, then go the account type and TLV extensions
+const ACCOUNT_TYPE_OFFSET = 165;
+const ACCOUNT_TYPE_MINT = 1;
+const TOKEN_METADATA_EXTENSION_TYPE = 19;
+
+export class OnChainTokenResolver {
+    private connection: Connection;
+
+    constructor(connection: Connection) {
+        if (!connection) {
+            throw new Error("Connection is required");
+        }
+        this.connection = connection;
+    }
+
+    async resolve(mint: PublicKey): Promise<TokenMetadata | null> {
+        return (await this.resolveMany([mint])).get(mint.toString()) ?? null;
+    }
+
+    async resolveMany(mints: PublicKey[]): Promise<Map<string, TokenMetadata | null>> {
+        // Decimals are always taken from the mint account. Symbol and name are taken from the Token-2022 metadata
+        // extension or from the Metaplex metadata account, without them the mint is used as the symbol.
+        // Mints and their metadata accounts are read with one request per MINTS_PER_REQUEST mints
+        const result = new Map<string, TokenMetadata | null>();
+        for (let i = 0; i < mints.length; i += MINTS_PER_REQUEST) {
+            const mintsChunk = mints.slice(i, i + MINTS_PER_REQUEST);
+            const metadataAddresses = mintsChunk.map(mint => this._getMetaplexMetadataAddress(mint));
+            const accounts = await this.connection.getMultipleAccountsInfo([...mintsChunk, ...metadataAddresses]);
+            mintsChunk.forEach((mint, index) => {
+                result.set(mint.toString(), this._parseTokenMetadata(mint, accounts[index], accounts[mintsChunk.length + index]));
+            });
+        }
+        return result;
+    }
+
+    _parseTokenMetadata(mint: PublicKey, mintAccount: AccountInfo<Buffer> | null, metaplexAccount: AccountInfo<Buffer> | null): TokenMetadata | null {
+        if (!mintAccount || !this._isMintAccount(mintAccount)) {
+            return null;
+        }
+        const mintString = mint.toString();
+        const metadata: TokenMetadata = {
+            mint: mintString,
+            symbol: mintString,
+            name: null,
+            decimals: mintAccount.data[MINT_DECIMALS_OFFSET],
+            tokenProgram: mintAccount.owner.toString(),
+            source: "mint",
+            fetchedAt: new Date(),
+        };
+        const extensionMetadata = this._parseMetadataExtension(mintAccount.data);
+        if (extensionMetadata) {
+            return { ...metadata, ...extensionMetadata, source: "token-2022" };
+        }
+        const metaplexMetadata = metaplexAccount ? this._parseMetaplexMetadata(metaplexAccount.data) : null;
+        if (metaplexMetadata) {
+            return { ...metadata, ...metaplexMetadata, source: "metaplex" };
+        }
+        return metadata;
+    }
+
+    _isMintAccount(account: AccountInfo<Buffer>): boolean {
+        // Token accounts have the same owner, they are 165 bytes or have another account type
+        if (!TOKEN_PROGRAM_IDS.includes(account.owner.toString())) {
+            return false;
+        }
+        return account.data.length === MINT_SIZE
+            || (account.data.length > ACCOUNT_TYPE_OFFSET && account.data[ACCOUNT_TYPE_OFFSET] === ACCOUNT_TYPE_MINT);
+    }
+
+    _parseMetadataExtension(data: Buffer): { symbol: string, name: string | null } | null {
+        // TLV extensions: type (u16), length (u16), value. TokenMetadata value: update authority, mint, name, symbol, uri
+        let offset = ACCOUNT_TYPE_OFFSET + 1;
+        while (offset + 4 <= data.length) {
+            const type = data.readUInt16LE(offset);
+            const length = data.readUInt16LE(offset + 2);
+            offset += 4;
+            if (type === TOKEN_METADATA_EXTENSION_TYPE) {
+                return this._parseMetadataStrings(data.subarray(offset, offset + length), 32 + 32);
+            }
+            offset += length;
+        }
+        return null;
+    }
+
+    _getMetaplexMetadataAddress(mint: PublicKey): PublicKey {
+        const [metadataAddress] = PublicKey.findProgramAddressSync(
+            [Buffer.from("metadata"), METAPLEX_METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+            METAPLEX_METADATA_PROGRAM_ID
+        );
+        return metadataAddress;
+    }
+
+    _parseMetaplexMetadata(data: Buffer): { symbol: string, name: string | null } | null {
+        // Metadata account: key (u8), update authority, mint, then name, symbol and uri as borsh strings
+        return this._parseMetadataStrings(data, 1 + 32 + 32);
+    }
+
+    _parseMetadataStrings(data: Buffer, offset: number): { symbol: string, name: string | null } | null {
+        // AAK: Metaplex pads strings with zero bytes up to the max length
+        try {
+            const readString = (): string => {
+                const length = data.readUInt32LE(offset);
+                offset += 4;
+                if (offset + length > data.length) {
+                    throw new RangeError("String is out of the account data");
+                }
+                const value = data.subarray(offset, offset + length).toString("utf-8");
+                offset += length;
+                return value.replace(/\0/g, "").trim();
+            };
+            const name = readString();
+            const symbol = readString();
+            if (!symbol) {
+                return null;
+            }
+            return { symbol: symbol, name: name || null };
+        } catch {
+            return null;
+        }
+    }
+}
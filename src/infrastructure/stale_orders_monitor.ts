@@ -0,0 +1,48 @@
+import { DBController } from "./db_controller";
+import { StaleOrdersAlert, StaleOrdersGroup } from "../interfaces/infrastructure_interfaces";
+
+export interface StaleOrdersMonitorOptions {
+    maxAgeMinutes: number; // order is stale if it's not filled or cancelled after this time
+    webhookUrl?: string; // alert is posted only if it's set
+}
+
+export class StaleOrdersMonitor {
+    private dbController: DBController;
+    private options: StaleOrdersMonitorOptions;
+
+    constructor(dbController: DBController, options: StaleOrdersMonitorOptions) {
+        if (!dbController) {
+            throw new Error("DBController is required");
+        }
+        if (!Number.isFinite(options.maxAgeMinutes) || options.maxAgeMinutes <= 0) {
+            throw new Error(`Wrong max age of orders: ${options.maxAgeMinutes}`);
+        }
+        this.dbController = dbController;
+        this.options = options;
+    }
+
+    async check(now: Date = new Date()): Promise<StaleOrdersGroup[]> {
+        const olderThan = new Date(now.getTime() - this.options.maxAgeMinutes * 60 * 1000);
+        const groups = await this.dbController.getStaleOrders(olderThan);
+        if (groups.length > 0 && this.options.webhookUrl) {
+            await this._sendAlert(this.options.webhookUrl, {
+                olderThan: olderThan.toISOString(),
+                numOfOrders: groups.reduce((total, group) => total + group.numOfOrders, 0),
+                groups: groups,
+            });
+        }
+        return groups;
+    }
+
+    async _sendAlert(webhookUrl: string, alert: StaleOrdersAlert): Promise<void> {
+        const response = await fetch(webhookUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(alert),
+        });
+        if (!response.ok) {
+            throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+        }
+        console.log(`Alert about ${alert.numOfOrders} stale orders sent`);
+    }
+}
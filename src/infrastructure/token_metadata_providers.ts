@@ -0,0 +1,117 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ProvidedTokenMetadata, TokenMetadata, TokenMetadataProvider } from "../interfaces/infrastructure_interfaces";
+
+export const DEFAULT_TOKEN_METADATA_PROVIDERS = ["onchain", "jupiter"];
+
+export interface TokenMetadataProvidersOptions {
+    tokenListPath?: string; // JSON array or CSV with mint, symbol and name
+    overridesPath?: string; // JSON object: mint -> { symbol, name }
+}
+
+export class OnChainTokenMetadataProvider implements TokenMetadataProvider {
+    readonly name = "onchain";
+
+    async getTokenMetadata(mint: string, mintMetadata: TokenMetadata): Promise<ProvidedTokenMetadata | null> {
+        // Token-2022 extension and Metaplex metadata are already read by OnChainTokenResolver with the mint
+        if (mintMetadata.source === "mint") {
+            return null;
+        }
+        return { symbol: mintMetadata.symbol, name: mintMetadata.name, source: mintMetadata.source };
+    }
+}
+
+export class JupiterTokenMetadataProvider implements TokenMetadataProvider {
+    readonly name = "jupiter";
+
+    async getTokenMetadata(mint: string): Promise<ProvidedTokenMetadata | null> {
+        const response = await fetch(`https://lite-api.jup.ag/tokens/v2/search?query=${mint}`);
+        // Error responses (e.g. rate limit) aren't a missing token, so the mint isn't saved as the symbol
+        if (!response.ok) {
+            throw new Error(`Jupiter API responded with ${response.status}`);
+        }
+        const data = await response.json() as { symbol: string; name?: string }[];
+        if (data.length > 0) {
+            return { symbol: data[0].symbol, name: data[0].name ?? null, source: "jupiter" };
+        }
+        return null;
+    }
+}
+
+export class TokenListMetadataProvider implements TokenMetadataProvider {
+    readonly name = "token-list";
+    private tokens: Map<string, ProvidedTokenMetadata>;
+
+    constructor(filePath: string) {
+        const content = fs.readFileSync(filePath, "utf-8");
+        const entries = path.extname(filePath).toLowerCase() === ".csv" ? this._parseCsv(content) : JSON.parse(content);
+        if (!Array.isArray(entries)) {
+            throw new Error(`Token list must be an array: ${filePath}`);
+        }
+        this.tokens = new Map();
+        for (const entry of entries) {
+            const mint = entry.mint ?? entry.address;
+            if (mint && entry.symbol) {
+                this.tokens.set(mint, { symbol: entry.symbol, name: entry.name || null, source: "token-list" });
+            }
+        }
+    }
+
+    async getTokenMetadata(mint: string): Promise<ProvidedTokenMetadata | null> {
+        return this.tokens.get(mint) ?? null;
+    }
+
+    _parseCsv(content: string): Record<string, string>[] {
+        // AAK: Simple CSV with a header and without quoted values, symbols and names don't have commas
+        const [header, ...lines] = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+        if (!header) {
+            return [];
+        }
+        const columns = header.split(",").map(column => column.trim());
+        return lines.map(line => {
+            const values = line.split(",").map(value => value.trim());
+            return Object.fromEntries(columns.map((column, index) => [column, values[index] ?? ""]));
+        });
+    }
+}
+
+export class OverridesTokenMetadataProvider implements TokenMetadataProvider {
+    readonly name = "overrides";
+    private overrides: Record<string, { symbol?: string; name?: string }>;
+
+    constructor(filePath: string) {
+        this.overrides = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    }
+
+    async getTokenMetadata(mint: string): Promise<ProvidedTokenMetadata | null> {
+        const override = this.overrides[mint];
+        if (!override?.symbol) {
+            return null;
+        }
+        return { symbol: override.symbol, name: override.name ?? null, source: "overrides" };
+    }
+}
+
+export function createTokenMetadataProviders(names: string[], options: TokenMetadataProvidersOptions = {}): TokenMetadataProvider[] {
+    // Providers are asked in the order of names, the first answer is used
+    return names.map(name => {
+        switch (name) {
+            case "onchain":
+                return new OnChainTokenMetadataProvider();
+            case "jupiter":
+                return new JupiterTokenMetadataProvider();
+            case "token-list":
+                if (!options.tokenListPath) {
+                    throw new Error("Path of the token list is not set");
+                }
+                return new TokenListMetadataProvider(options.tokenListPath);
+            case "overrides":
+                if (!options.overridesPath) {
+                    throw new Error("Path of the token overrides is not set");
+                }
+                return new OverridesTokenMetadataProvider(options.overridesPath);
+            default:
+                throw new Error(`Unknown token metadata provider: ${name}`);
+        }
+    });
+}
@@ -1,48 +1,142 @@
 import { Connection, PublicKey } from "@solana/web3.js";
-import { TokenInfo } from "../interfaces/infrastructure_interfaces";
+import { TokenInfo, TokenMetadata, TokenMetadataProvider } from "../interfaces/infrastructure_interfaces";
+import { DBController } from "./db_controller";
+import { OnChainTokenResolver } from "./onchain_token_resolver";
+import { createTokenMetadataProviders, DEFAULT_TOKEN_METADATA_PROVIDERS } from "./token_metadata_providers";
+
+const DEFAULT_METADATA_TTL_HOURS = 24 * 7;
+
+export interface TokensInfoCacheOptions {
+    metadataTtlHours?: number; // metadata in the DB is fetched again after this time
+    providers?: TokenMetadataProvider[]; // symbols and names are taken from the first provider that knows the token
+}
 
 export class TokensInfoCache {
     private tokens: Map<string, TokenInfo> = new Map();
+    // One request per mint, concurrent parses of the same new mint wait for it
+    private pendingTokens: Map<string, Promise<TokenInfo | null>> = new Map();
     private connection: Connection;
+    private onChainTokenResolver: OnChainTokenResolver;
+    private providers: TokenMetadataProvider[];
+    private dbController: DBController | null;
+    private metadataTtlMs: number;
 
-    constructor(connection: Connection) {
+    constructor(connection: Connection, dbController: DBController | null = null, options: TokensInfoCacheOptions = {}) {
         if (!connection) {
             throw new Error("Connection is required");
         }
+        const metadataTtlHours = options.metadataTtlHours ?? DEFAULT_METADATA_TTL_HOURS;
+        if (!Number.isFinite(metadataTtlHours) || metadataTtlHours < 0) {
+            throw new Error(`Wrong TTL of token metadata: ${metadataTtlHours}`);
+        }
         this.connection = connection;
+        this.onChainTokenResolver = new OnChainTokenResolver(connection);
+        this.providers = options.providers ?? createTokenMetadataProviders(DEFAULT_TOKEN_METADATA_PROVIDERS);
+        this.dbController = dbController;
+        this.metadataTtlMs = metadataTtlHours * 60 * 60 * 1000;
     }
     async getTokenInfo(tokenPublicKey: PublicKey): Promise<TokenInfo | null> {
-        // Return token info from cache or API
+        // Return token info from cache, DB or chain and API. null if the token is not a mint on Solana
         const tokenPublicKeyString = tokenPublicKey.toString();
         const cachedTokenInfo = this.tokens.get(tokenPublicKeyString);
         if (cachedTokenInfo) {
             return cachedTokenInfo;
         }
-        const tokenInfo = await this._getTokenInfoFromApi(tokenPublicKey);
-        if (tokenInfo) {
-            this.tokens.set(tokenPublicKeyString, tokenInfo);
-            return tokenInfo;
+        return this.pendingTokens.get(tokenPublicKeyString)
+            ?? this._loadTokenInfo(tokenPublicKey, () => this.onChainTokenResolver.resolve(tokenPublicKey));
+    }
+
+    async getTokenInfos(tokenPublicKeys: PublicKey[]): Promise<Map<string, TokenInfo | null>> {
+        // New mints are read from chain with one batch request, it's sent only if some of them are not fresh in the DB
+        const mints = [...new Set(tokenPublicKeys.map(tokenPublicKey => tokenPublicKey.toString()))];
+        const newMints = mints.filter(mint => !this.tokens.has(mint) && !this.pendingTokens.has(mint));
+        let mintsMetadata: Promise<Map<string, TokenMetadata | null>> | null = null;
+        const resolveMint = async (mint: string): Promise<TokenMetadata | null> => {
+            mintsMetadata ??= this.onChainTokenResolver.resolveMany(newMints.map(newMint => new PublicKey(newMint)));
+            return (await mintsMetadata).get(mint) ?? null;
+        };
+        for (const mint of newMints) {
+            this._loadTokenInfo(new PublicKey(mint), () => resolveMint(mint));
         }
-        return null;
+        const tokenInfos = await Promise.all(mints.map(async mint => [mint, await this.getTokenInfo(new PublicKey(mint))] as const));
+        return new Map(tokenInfos);
     }
 
-    private async _getTokenInfoFromApi(tokenPublicKey: PublicKey): Promise<TokenInfo | undefined> {
-        // TO DO: Change when normal API will be working
-        const tokenPK = tokenPublicKey.toString();
-        const response = await fetch(`https://lite-api.jup.ag/tokens/v2/search?query=${tokenPK}`);
-        const data = await response.json() as { symbol: string; decimals: number }[];
-        if (data.length > 0) {
-            return {
-                key: tokenPK,
-                symbol: data[0].symbol,
-                precision: data[0].decimals
-            };
-        }
-    return { // Default values
-        key: tokenPK,
-        symbol: tokenPK,
-        precision: 6
-    };
+    private _loadTokenInfo(tokenPublicKey: PublicKey, resolveMint: () => Promise<TokenMetadata | null>): Promise<TokenInfo | null> {
+        const tokenPublicKeyString = tokenPublicKey.toString();
+        const pendingTokenInfo = this._getTokenInfoFromDBOrSources(tokenPublicKey, resolveMint)
+            .then(loadedTokenInfo => {
+                // Token info without the symbol of a failed provider is loaded again on the next call
+                if (loadedTokenInfo?.isComplete) {
+                    this.tokens.set(tokenPublicKeyString, loadedTokenInfo.tokenInfo);
+                }
+                return loadedTokenInfo?.tokenInfo ?? null;
+            })
+            .finally(() => this.pendingTokens.delete(tokenPublicKeyString));
+        this.pendingTokens.set(tokenPublicKeyString, pendingTokenInfo);
+        return pendingTokenInfo;
+    }
+
+    private async _getTokenInfoFromDBOrSources(tokenPublicKey: PublicKey, resolveMint: () => Promise<TokenMetadata | null>): Promise<{ tokenInfo: TokenInfo, isComplete: boolean } | undefined> {
+        const storedMetadata = await this.dbController?.getTokenMetadata(tokenPublicKey.toString()) ?? null;
+        if (storedMetadata && Date.now() - storedMetadata.fetchedAt.getTime() < this.metadataTtlMs) {
+            return { tokenInfo: this._toTokenInfo(storedMetadata), isComplete: true };
+        }
+        let sourcesMetadata: { metadata: TokenMetadata, providerError: Error | null } | null;
+        try {
+            sourcesMetadata = await this._getTokenMetadataFromSources(resolveMint);
+        } catch (e: any) {
+            // AAK: Outdated metadata is better than nothing, so the runs work offline for the seen tokens
+            if (storedMetadata) {
+                console.error(`Token metadata of ${tokenPublicKey.toString()} is not refreshed: ${e.message}`);
+                return { tokenInfo: this._toTokenInfo(storedMetadata), isComplete: true };
+            }
+            throw e;
+        }
+        if (!sourcesMetadata) {
+            return storedMetadata ? { tokenInfo: this._toTokenInfo(storedMetadata), isComplete: true } : undefined;
+        }
+        if (sourcesMetadata.providerError) {
+            if (storedMetadata) {
+                console.error(`Token metadata of ${tokenPublicKey.toString()} is not refreshed: ${sourcesMetadata.providerError.message}`);
+                return { tokenInfo: this._toTokenInfo(storedMetadata), isComplete: true };
+            }
+            // AAK: A failed provider may know the token, so the mint isn't saved as the symbol. Decimals are known from the mint,
+            // so the token info is still returned and the transaction is parsed
+            console.error(`Token metadata of ${tokenPublicKey.toString()} is not saved, the mint is used as the symbol: ${sourcesMetadata.providerError.message}`);
+            return { tokenInfo: this._toTokenInfo(sourcesMetadata.metadata), isComplete: false };
+        }
+        await this.dbController?.saveTokenMetadata(sourcesMetadata.metadata);
+        return { tokenInfo: this._toTokenInfo(sourcesMetadata.metadata), isComplete: true };
+    }
+
+    private async _getTokenMetadataFromSources(resolveMint: () => Promise<TokenMetadata | null>): Promise<{ metadata: TokenMetadata, providerError: Error | null } | null> {
+        // Decimals are read from the mint account only, a wrong guess mis-scales all amounts of the token.
+        // If no provider knows the token, the mint is the symbol, providerError is set if some of them failed
+        const mintMetadata = await resolveMint();
+        if (!mintMetadata) {
+            return null;
+        }
+        let providerError: Error | null = null;
+        for (const provider of this.providers) {
+            try {
+                const providedMetadata = await provider.getTokenMetadata(mintMetadata.mint, mintMetadata);
+                if (providedMetadata) {
+                    return { metadata: { ...mintMetadata, ...providedMetadata }, providerError: null };
+                }
+            } catch (e: any) {
+                console.error(`Token metadata provider ${provider.name} failed for ${mintMetadata.mint}: ${e.message}`);
+                providerError = e;
+            }
+        }
+        return { metadata: { ...mintMetadata, symbol: mintMetadata.mint, name: null, source: "mint" }, providerError: providerError };
     }
-}
 
+    private _toTokenInfo(metadata: TokenMetadata): TokenInfo {
+        return {
+            key: metadata.mint,
+            symbol: metadata.symbol,
+            precision: metadata.decimals
+        };
+    }
+}
@@ -2,4 +2,63 @@ export interface TokenInfo {
     key: string;
     symbol: string;
     precision: number;
-}
\ No newline at end of file
+}
+
+// Where the symbol and name were taken from, decimals are always read from the mint account.
+// mint - no provider knows the token, the mint is used as the symbol
+export type TokenMetadataSource = "token-2022" | "metaplex" | "jupiter" | "token-list" | "overrides" | "mint";
+
+export interface TokenMetadata {
+    mint: string;
+    symbol: string;
+    name: string | null;
+    decimals: number;
+    tokenProgram: string | null;
+    source: TokenMetadataSource; // where the metadata was taken from
+    fetchedAt: Date;
+}
+
+export interface ProvidedTokenMetadata {
+    symbol: string;
+    name: string | null;
+    source: TokenMetadataSource;
+}
+
+export interface TokenMetadataProvider {
+    readonly name: string;
+    // mintMetadata is read from the mint account before the providers are asked
+    getTokenMetadata(mint: string, mintMetadata: TokenMetadata): Promise<ProvidedTokenMetadata | null>;
+}
+
+export interface IngestionCursor {
+    programId: string;
+    oldestSignature: string;
+    oldestSlot: number;
+    newestSignature: string;
+    newestSlot: number;
+}
+
+export interface CorridorReportRow {
+    giveChain: string;
+    takeChain: string;
+    amountUsd: number;
+    percentFeeUsd: number;
+    fixedFeeUsd: number;
+    totalAmountUsd: number;
+    numOfOrders: number;
+}
+
+export interface StaleOrdersGroup {
+    symbol: string;
+    takeChain: string;
+    numOfOrders: number;
+    totalAmount: number;
+    oldestCreatedAt: Date;
+    orderIds: string[];
+}
+
+export interface StaleOrdersAlert {
+    olderThan: string; // ISO time, orders created before it are stale
+    numOfOrders: number;
+    groups: StaleOrdersGroup[];
+}
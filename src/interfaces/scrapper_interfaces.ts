@@ -1,32 +1,99 @@
-type OrderStatus = "created" | "filled";
+export type AmountExtractionMethod = "transfer" | "balance_delta"; // transfer instruction or balance change of the receiver
+
+// Problems of the source data, the row is saved but may be incomplete:
+// log_truncated - logs of the transaction are truncated, so some events can be missed
+// instruction_fallback - the row is made from the instruction data, because its event is missed
+// order_id_mismatch - order ID from the event differs from the one derived from the order
+// batch_incomplete - order IDs of some orders of sendBatchUnlock are not found, only the found ones are saved
+export type DataQualityFlag = "log_truncated" | "instruction_fallback" | "order_id_mismatch" | "batch_incomplete";
+
+// Reasons why a created order of a transaction with truncated logs is not restored, such orders have no row and are counted:
+// nonce_unknown - createOrder takes the nonce from the nonceMaster account, so its order ID can't be derived
+// give_order_state_mismatch - the order built from the instruction doesn't match giveOrderState (e.g. the percent fee is changed)
+export type LostOrderReason = "nonce_unknown" | "give_order_state_mismatch";
+
+type OrderStatus = "created" | "filled" | "unlocked" | "cancel_claimed" | "cancelled" | "cancel_sent" | "unlock_sent" | "give_patched" | "take_patched";
 
 export interface TransactionParserResult {
     orderId: string;
     status: OrderStatus;
-    amount: number;
+    amount: string; // raw integer amount in the smallest units of the token
+    decimals: number; // decimals of the token, amounts are scaled by them in the DB
     timestamp: number; // timestamp in seconds
-    tokenSymbol: string; // symbol of the token
-    tokenKey: string; // key of the token
-    percentFee?: number; // percent fee of the order
-    fixedFee?: number; // fixed fee of the order
+    tokenSymbol: string | null; // symbol of the token, null if the event doesn't move tokens
+    tokenKey: string | null; // key of the token, null if the event doesn't move tokens
+    percentFee?: string; // raw percent fee of the order
+    fixedFee?: string; // raw fixed fee of the order
+    actor?: string; // address of the account that made the action (e.g. canceler)
+    details?: OrderDetails; // full order, only for created orders
+    extractionMethod?: AmountExtractionMethod; // how the amount was found, only for filled orders
+    dataQualityFlags?: DataQualityFlag[]; // only if the data has problems
 }
 
 interface ParsedOrder {
     orderId: string;
-    amount: number;
-    tokenKey: string;
-    tokenSymbol: string;
+    amount: string;
+    decimals: number;
+    tokenKey: string | null;
+    tokenSymbol: string | null;
     status: OrderStatus;
+    actor?: string;
+    dataQualityFlags?: DataQualityFlag[];
 }
 
 export interface ParsedOrderCreated extends ParsedOrder {
-    percentFee: number;
-    fixedFee: number;
+    percentFee: string;
+    fixedFee: string;
+    details: OrderDetails;
+}
+
+export interface ChainAddress {
+    hex: string;
+    base58: string | null; // only for Solana addresses
+}
+
+export interface OrderDetails {
+    // All fields of the DLN Order struct, amounts and chain IDs are raw integers as strings
+    makerOrderNonce: string;
+    makerSrc: ChainAddress;
+    giveChainId: string;
+    giveTokenAddress: ChainAddress;
+    giveAmount: string;
+    takeChainId: string;
+    takeTokenAddress: ChainAddress;
+    takeAmount: string;
+    receiverDst: ChainAddress;
+    givePatchAuthoritySrc: ChainAddress;
+    orderAuthorityAddressDst: ChainAddress;
+    allowedTakerDst: ChainAddress | null;
+    allowedCancelBeneficiarySrc: ChainAddress | null;
+    externalCallShortcut: string | null; // hex
 }
 
 export interface ParsedOrderFilled extends ParsedOrder {
+    extractionMethod: AmountExtractionMethod;
+}
+
+export interface ParsedOrderClaimed extends ParsedOrder {
+    status: "unlocked" | "cancel_claimed";
+}
+
+export interface ParsedOrderCancelled extends ParsedOrder {
+    status: "cancelled" | "cancel_sent";
+    actor: string;
+}
+
+export interface ParsedOrderUnlockSent extends ParsedOrder {
+    status: "unlock_sent";
+    actor: string;
+}
+
+export interface ParsedOrderPatched extends ParsedOrder {
+    status: "give_patched" | "take_patched"; // amount is the final amount of the order after the patch
+    percentFee?: string; // raw final percent fee, only for give patches
 }
 
 export interface OrderInfoResult extends TransactionParserResult {
     signature: string;
-}
\ No newline at end of file
+    slot: number;
+}
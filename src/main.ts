@@ -1,14 +1,26 @@
 import 'dotenv/config';
 import { Connection, PublicKey } from "@solana/web3.js";
-import { parseDataFromTransaction } from "./scrapper/transaction_parser";
+import { getLostOrders, parseDataFromTransaction } from "./scrapper/transaction_parser";
 import { DBController } from "./infrastructure/db_controller";
 import { TokensInfoCache } from "./infrastructure/tokens_info_cache";
+import { createTokenMetadataProviders, DEFAULT_TOKEN_METADATA_PROVIDERS } from "./infrastructure/token_metadata_providers";
 import { fetchOrdersInBatches } from "./scrapper/transaction_getter";
 import { OrderInfoResult } from './interfaces/scrapper_interfaces';
 import { TokenPriceDownloader } from './infrastructure/token_price_downloader';
+import { OrdersStreamer } from './scrapper/transaction_streamer';
 
 const DLN_SRC_PROGRAM_ID = process.env.DLN_SRC_PROGRAM_ID || "";
 const DLN_DST_PROGRAM_ID = process.env.DLN_DST_PROGRAM_ID || "";
+// backfill - dig into the history before the earliest saved order
+// forward - download only orders that appeared after the latest saved order
+// stream - subscribe to the programs logs and save new orders in near real time
+const SYNC_MODE = process.env.SYNC_MODE || "backfill";
+// Token metadata saved in the DB is fetched again after this time (a week by default)
+const TOKEN_METADATA_TTL_HOURS = Number(process.env.TOKEN_METADATA_TTL_HOURS || 24 * 7);
+// Comma separated token metadata providers in priority order: overrides, onchain, token-list, jupiter
+const TOKEN_METADATA_PROVIDERS = process.env.TOKEN_METADATA_PROVIDERS?.split(",").map(name => name.trim()).filter(name => name.length > 0);
+// Stream mode refills token prices with this interval, gold views show only orders with prices (an hour by default)
+const PRICES_REFRESH_MINUTES = Number(process.env.PRICES_REFRESH_MINUTES || 60);
 
 
 async function main() {
@@ -21,24 +33,86 @@ async function main() {
         disableRetryOnRateLimit: false,
         confirmTransactionInitialTimeout: 60000,
     });
-    const tokensInfo = new TokensInfoCache(connection);
+    const tokensInfo = new TokensInfoCache(connection, dbController, {
+        metadataTtlHours: TOKEN_METADATA_TTL_HOURS,
+        providers: createTokenMetadataProviders(TOKEN_METADATA_PROVIDERS ?? DEFAULT_TOKEN_METADATA_PROVIDERS, {
+            tokenListPath: process.env.TOKEN_LIST_PATH,
+            overridesPath: process.env.TOKEN_OVERRIDES_PATH,
+        }),
+    });
+    if (SYNC_MODE === 'stream') {
+        await dbController.madeViews();
+        await streamOrders(connection, tokensInfo, dbController, tokenPriceDownloader);
+        return;
+    }
     for (const programID of [DLN_SRC_PROGRAM_ID, DLN_DST_PROGRAM_ID]) {
-        let earliestRecord: OrderInfoResult | null = null;
-        if (programID === DLN_SRC_PROGRAM_ID) {
-            earliestRecord = await dbController.getEarliestDBRecordFromStaging('CREATED');
+        const orderStatus = programID === DLN_SRC_PROGRAM_ID ? 'CREATED' : 'FILLED';
+        const totalRequired = 25000;
+        // AAK: Staging is used only for databases that were filled before ingestion_cursors appeared
+        const cursor = await dbController.getIngestionCursor(programID);
+        let generator: AsyncGenerator<OrderInfoResult[], void, unknown>;
+        if (SYNC_MODE === 'forward') {
+            const untilSignature = cursor?.newestSignature ?? (await dbController.getLastDBRecord(orderStatus))?.signature;
+            generator = fetchOrdersInBatches(connection, new PublicKey(programID), tokensInfo, totalRequired, 100, undefined, untilSignature);
         }
         else {
-            earliestRecord = await dbController.getEarliestDBRecordFromStaging('FILLED');
+            const beforeSignature = cursor?.oldestSignature ?? (await dbController.getEarliestDBRecordFromStaging(orderStatus))?.signature;
+            generator = fetchOrdersInBatches(connection, new PublicKey(programID), tokensInfo,  totalRequired, 100, beforeSignature);
         }
-        const totalRequired = 25000;
-        const generator = fetchOrdersInBatches(connection, new PublicKey(programID), tokensInfo,  totalRequired, 100, earliestRecord?.signature);
         for await (const batch of generator) {
             console.log('Get batch to save to DB');
-            await dbController.saveBatchToDB(batch);
+            await dbController.saveBatchToDB(batch, programID);
             await dbController.convertMainStagingTableToSilver();
         }
     }
     await tokenPriceDownloader.refillTokensPricesTable();
     await dbController.madeViews();
+    logLostOrders();
+}
+
+function logLostOrders() {
+    // Lost orders are not in the DB, so the totals of the run are reported at its end
+    const lostOrders = getLostOrders();
+    const numOfLostOrders = Object.values(lostOrders).reduce((sum, count) => sum + count, 0);
+    if (numOfLostOrders > 0) {
+        console.error(`${numOfLostOrders} created orders of transactions with truncated logs are not restored:`, lostOrders);
+    }
+}
+
+async function streamOrders(connection: Connection, tokensInfo: TokensInfoCache, dbController: DBController, tokenPriceDownloader: TokenPriceDownloader) {
+    if (!Number.isFinite(PRICES_REFRESH_MINUTES) || PRICES_REFRESH_MINUTES <= 0) {
+        throw new Error(`Wrong interval of prices refresh: ${PRICES_REFRESH_MINUTES}`);
+    }
+    const programIDs = [DLN_SRC_PROGRAM_ID, DLN_DST_PROGRAM_ID];
+    const lastSignatures: Record<string, string | undefined> = {};
+    for (const programID of programIDs) {
+        const cursor = await dbController.getIngestionCursor(programID);
+        lastSignatures[programID] = cursor?.newestSignature;
+    }
+    const streamer = new OrdersStreamer(connection, tokensInfo, dbController);
+    streamer.start(programIDs.map(programID => new PublicKey(programID)), lastSignatures);
+    let isPricesRefreshing = false;
+    const refreshPrices = async () => {
+        // AAK: Price API can be slower than the interval, the next refresh is skipped then
+        if (isPricesRefreshing) {
+            return;
+        }
+        isPricesRefreshing = true;
+        try {
+            await tokenPriceDownloader.refillTokensPricesTable();
+        } catch (e: any) {
+            console.error('Failed to refill tokens prices:', e);
+        } finally {
+            isPricesRefreshing = false;
+        }
+    };
+    const pricesTimer = setInterval(refreshPrices, PRICES_REFRESH_MINUTES * 60 * 1000);
+    refreshPrices();
+    process.once('SIGINT', async () => {
+        clearInterval(pricesTimer);
+        await streamer.stop();
+        logLostOrders();
+        process.exit(0);
+    });
 }
 main();
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { BorshCoder, Event, Idl } from "@coral-xyz/anchor";
+import { ParsedInstruction, ParsedTransactionWithMeta, PartiallyDecodedInstruction, PublicKey } from "@solana/web3.js";
+
+type IdlAccountItem = Idl["instructions"][number]["accounts"][number];
+
+export interface DecodedInstruction {
+    name: string;
+    data: any;
+    accounts: Record<string, string>; // IDL account name -> address (nested account groups are flattened)
+    remainingAccounts: string[]; // Accounts passed after the ones declared in IDL
+    instIndex: number; // Index of the top-level instruction
+    innerIndex: number | null; // Index inside the inner instructions of instIndex, null for top-level instruction
+}
+
+export class InstructionDecoder {
+    private programId: string;
+    private coder: BorshCoder;
+    private accountNames: Map<string, string[]> = new Map();
+
+    constructor(programId: PublicKey, idl: Idl) {
+        if (!programId) {
+            throw new Error("Program ID is not set");
+        }
+        this.programId = programId.toString();
+        this.coder = new BorshCoder(idl);
+        for (const instruction of idl.instructions) {
+            this.accountNames.set(instruction.name, this._flattenAccountNames(instruction.accounts));
+        }
+    }
+
+    decodeTransaction(transaction: ParsedTransactionWithMeta): DecodedInstruction[] {
+        // Return all instructions of the program (top-level and CPI) in the order of execution
+        const decodedInstructions: DecodedInstruction[] = [];
+        const instructions = transaction.transaction?.message?.instructions || [];
+        const innerInstructions = transaction.meta?.innerInstructions || [];
+        for (let instIndex = 0; instIndex < instructions.length; instIndex++) {
+            const decoded = this.decodeInstruction(instructions[instIndex], instIndex, null);
+            if (decoded) {
+                decodedInstructions.push(decoded);
+            }
+            const inner = innerInstructions.find(inner => inner.index === instIndex);
+            if (!inner) {
+                continue;
+            }
+            for (let innerIndex = 0; innerIndex < inner.instructions.length; innerIndex++) {
+                const decodedInner = this.decodeInstruction(inner.instructions[innerIndex], instIndex, innerIndex);
+                if (decodedInner) {
+                    decodedInstructions.push(decodedInner);
+                }
+            }
+        }
+        return decodedInstructions;
+    }
+
+    decodeInstruction(instruction: ParsedInstruction | PartiallyDecodedInstruction, instIndex: number, innerIndex: number | null): DecodedInstruction | null {
+        if (instruction.programId.toString() !== this.programId || !('data' in instruction)) {
+            return null;
+        }
+        let decoded;
+        try {
+            decoded = this.coder.instruction.decode(instruction.data, 'base58');
+        } catch {
+            return null;
+        }
+        if (!decoded) {
+            return null;
+        }
+        const accountNames = this.accountNames.get(decoded.name) || [];
+        const accountAddresses = instruction.accounts.map(account => account.toString());
+        const accounts: Record<string, string> = {};
+        accountNames.forEach((accountName, index) => {
+            if (index < accountAddresses.length) {
+                accounts[accountName] = accountAddresses[index];
+            }
+        });
+        return {
+            name: decoded.name,
+            data: decoded.data,
+            accounts: accounts,
+            remainingAccounts: accountAddresses.slice(accountNames.length),
+            instIndex: instIndex,
+            innerIndex: innerIndex,
+        };
+    }
+
+    private _flattenAccountNames(accounts: IdlAccountItem[]): string[] {
+        const names: string[] = [];
+        for (const account of accounts) {
+            if ('accounts' in account) {
+                names.push(...this._flattenAccountNames(account.accounts));
+            } else {
+                names.push(account.name);
+            }
+        }
+        return names;
+    }
+}
+
+export function matchEventsWithInstructions(
+    events: Event[],
+    instructions: DecodedInstruction[],
+    eventNameByInstruction: Record<string, string>,
+): { event: Event, instruction: DecodedInstruction }[] | null {
+    // Events without fields can be linked to their instructions only by the order of execution.
+    // Return null if the number of events and instructions is different.
+    const eventNames = Object.values(eventNameByInstruction);
+    const matchedEvents = events.filter(event => eventNames.includes(event.name));
+    const matchedInstructions = instructions.filter(instruction => instruction.name in eventNameByInstruction);
+    if (matchedEvents.length !== matchedInstructions.length) {
+        return null;
+    }
+    return matchedInstructions.map((instruction, index) => ({ event: matchedEvents[index], instruction: instruction }));
+}
@@ -0,0 +1,102 @@
+import BN from "bn.js";
+import { Event } from "@coral-xyz/anchor";
+import { ParsedTransactionWithMeta, PublicKey } from "@solana/web3.js";
+import { TokensInfoCache } from "../infrastructure/tokens_info_cache";
+import type { TokenInfo } from "../interfaces/infrastructure_interfaces";
+import { ParsedOrderCancelled } from "../interfaces/scrapper_interfaces";
+import { DecodedInstruction, matchEventsWithInstructions } from "./instruction_decoder";
+import { getTakeTokenInfoFromOrder } from "./token_balances";
+
+const CANCEL_INSTRUCTIONS: Record<string, { eventName: string, status: ParsedOrderCancelled['status'] }> = {
+    cancelOrder: { eventName: "OrderCancelled", status: "cancelled" },
+    sendOrderCancel: { eventName: "SentOrderCancel", status: "cancel_sent" },
+};
+
+export class OrderCancelledParser {
+    private dstProgramID: PublicKey;
+    constructor(dstProgramID: PublicKey) {
+        this.dstProgramID = dstProgramID;
+        if (!this.dstProgramID) {
+            throw new Error("DLN_DST_PROGRAM_ID is not set");
+        }
+    }
+
+    async parseOrderCancelledEvent(dstEvents: Event[], dstInstructions: DecodedInstruction[], tokensInfo: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<ParsedOrderCancelled[] | null> {
+        // OrderCancelled and SentOrderCancel events have no fields, so all information is taken from
+        // the cancel instructions. Every cancel instruction emits exactly one event.
+        const eventNameByInstruction = Object.fromEntries(Object.entries(CANCEL_INSTRUCTIONS).map(([name, cancel]) => [name, cancel.eventName]));
+        const cancels = matchEventsWithInstructions(dstEvents, dstInstructions, eventNameByInstruction);
+        if (cancels === null) {
+            console.error(`${transaction.transaction.signatures[0]}: Cancel instructions and events length mismatch`);
+            return null;
+        }
+        if (cancels.length === 0) {
+            return null;
+        }
+
+        const orderCancelledEvents: ParsedOrderCancelled[] = [];
+        for (const { event, instruction } of cancels) {
+            const cancel = CANCEL_INSTRUCTIONS[instruction.name];
+            if (cancel.eventName !== event.name) {
+                console.error(`${transaction.transaction.signatures[0]}: Instruction ${instruction.name} doesn't match event ${event.name}`);
+                continue;
+            }
+            const orderId = this._getOrderIdFromInstruction(instruction);
+            if (!orderId) {
+                console.error(`${transaction.transaction.signatures[0]}: Order ID not found for ${instruction.name}`);
+                continue;
+            }
+            const canceler = instruction.accounts.canceler;
+            if (!canceler) {
+                console.error(`${transaction.transaction.signatures[0]}: Canceler not found for order ${orderId}`);
+                continue;
+            }
+            // AAK: Only cancelOrder has the order inside, sendOrderCancel just sends the message to the source chain
+            let tokenInfo: TokenInfo | null = null;
+            let amount = "0";
+            if (instruction.data?.unvalidatedOrder) {
+                tokenInfo = await getTakeTokenInfoFromOrder(instruction.data.unvalidatedOrder, tokensInfo, transaction);
+                if (tokenInfo) {
+                    amount = this._getTakeAmountFromOrder(instruction.data.unvalidatedOrder);
+                } else {
+                    console.error(`${transaction.transaction.signatures[0]}: Token info not found for order ${orderId}, amount is not saved`);
+                }
+            }
+            orderCancelledEvents.push({
+                orderId: orderId,
+                status: cancel.status,
+                amount: amount,
+                decimals: tokenInfo?.precision ?? 0,
+                tokenKey: tokenInfo?.key ?? null,
+                tokenSymbol: tokenInfo?.symbol ?? null,
+                actor: canceler,
+            });
+        }
+        return orderCancelledEvents;
+    }
+
+    _getOrderIdFromInstruction(instruction: DecodedInstruction): string | null {
+        // Order ID is an argument of the cancel instruction, takeOrderState is the PDA of this order ID
+        const orderIdRaw = instruction.data?.orderId;
+        if (!orderIdRaw) {
+            return null;
+        }
+        const orderIdBytes = Buffer.from(orderIdRaw as Uint8Array);
+        const takeOrderState = instruction.accounts.takeOrderState;
+        if (takeOrderState) {
+            const [expectedTakeOrderState] = PublicKey.findProgramAddressSync([Buffer.from("TAKE_ORDER_STATE"), orderIdBytes], this.dstProgramID);
+            if (expectedTakeOrderState.toString() !== takeOrderState) {
+                return null;
+            }
+        }
+        return orderIdBytes.toString("hex");
+    }
+
+    _getTakeAmountFromOrder(order: any): string {
+        const takeAmountRaw = order?.take?.amount;
+        if (!takeAmountRaw) {
+            return "0";
+        }
+        return new BN(Buffer.from(takeAmountRaw), 'be').toString();
+    }
+}
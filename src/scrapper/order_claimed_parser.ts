@@ -0,0 +1,125 @@
+import { Event } from "@coral-xyz/anchor";
+import { ParsedInstruction, ParsedTransactionWithMeta, PublicKey } from "@solana/web3.js";
+import { TokensInfoCache } from "../infrastructure/tokens_info_cache";
+import type { TokenInfo } from "../interfaces/infrastructure_interfaces";
+import { ParsedOrderClaimed } from "../interfaces/scrapper_interfaces";
+import { DecodedInstruction, matchEventsWithInstructions } from "./instruction_decoder";
+import { getMintTokenInfo } from "./token_balances";
+
+const CLAIM_INSTRUCTIONS: Record<string, { eventName: string, status: ParsedOrderClaimed['status'] }> = {
+    claimUnlock: { eventName: "ClaimedUnlock", status: "unlocked" },
+    claimOrderCancel: { eventName: "ClaimedOrderCancel", status: "cancel_claimed" },
+};
+
+export class OrderClaimedParser {
+    private srcProgramID: PublicKey;
+    constructor(srcProgramID: PublicKey) {
+        this.srcProgramID = srcProgramID;
+        if (!this.srcProgramID) {
+            throw new Error("DLN_SRC_PROGRAM_ID is not set");
+        }
+    }
+
+    async parseOrderClaimedEvent(srcEvents: Event[], srcInstructions: DecodedInstruction[], tokensInfo: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<ParsedOrderClaimed[] | null> {
+        // ClaimedUnlock and ClaimedOrderCancel events have no fields, so all information is taken from
+        // the claim instructions. Every claim instruction emits exactly one event.
+        const eventNameByInstruction = Object.fromEntries(Object.entries(CLAIM_INSTRUCTIONS).map(([name, claim]) => [name, claim.eventName]));
+        const claims = matchEventsWithInstructions(srcEvents, srcInstructions, eventNameByInstruction);
+        if (claims === null) {
+            console.error(`${transaction.transaction.signatures[0]}: Claim instructions and events length mismatch`);
+            return null;
+        }
+        if (claims.length === 0) {
+            return null;
+        }
+
+        const orderClaimedEvents: ParsedOrderClaimed[] = [];
+        for (const { event, instruction } of claims) {
+            const claim = CLAIM_INSTRUCTIONS[instruction.name];
+            if (claim.eventName !== event.name) {
+                console.error(`${transaction.transaction.signatures[0]}: Instruction ${instruction.name} doesn't match event ${event.name}`);
+                continue;
+            }
+            const orderId = this._getOrderIdFromInstruction(instruction);
+            if (!orderId) {
+                console.error(`${transaction.transaction.signatures[0]}: Order ID not found for ${instruction.name}`);
+                continue;
+            }
+            const transferInstruction = this._getClaimTransferInstruction(transaction, instruction);
+            if (!transferInstruction) {
+                console.error(`${transaction.transaction.signatures[0]}: Claim transfer not found for order ${orderId}`);
+                continue;
+            }
+            const tokenInfo = await this._getTokenInfoFromInstruction(instruction, tokensInfo, transaction);
+            if (!tokenInfo) {
+                console.error(`${transaction.transaction.signatures[0]}: Token info not found for order ${orderId}`);
+                continue;
+            }
+            orderClaimedEvents.push({
+                orderId: orderId,
+                status: claim.status,
+                amount: this._getAmountFromTransfer(transferInstruction),
+                decimals: tokenInfo.precision,
+                tokenKey: tokenInfo.key,
+                tokenSymbol: tokenInfo.symbol,
+            });
+        }
+        return orderClaimedEvents;
+    }
+
+    _getOrderIdFromInstruction(instruction: DecodedInstruction): string | null {
+        // Order ID is an argument of the claim instruction, giveOrderState is the PDA of this order ID.
+        // AAK: If they don't match, the instruction was decoded with the wrong IDL.
+        const orderIdRaw = instruction.data?.orderId;
+        if (!orderIdRaw) {
+            return null;
+        }
+        const orderIdBytes = Buffer.from(orderIdRaw as Uint8Array);
+        const giveOrderState = instruction.accounts.giveOrderState;
+        if (giveOrderState) {
+            const [expectedGiveOrderState] = PublicKey.findProgramAddressSync([Buffer.from("GIVE_ORDER_STATE"), orderIdBytes], this.srcProgramID);
+            if (expectedGiveOrderState.toString() !== giveOrderState) {
+                return null;
+            }
+        }
+        return orderIdBytes.toString("hex");
+    }
+
+    _getClaimTransferInstruction(transaction: ParsedTransactionWithMeta, instruction: DecodedInstruction): ParsedInstruction | null {
+        // Transfer from the order wallet to the beneficiary wallet, it is done by the claim instruction itself
+        const giveOrderWallet = instruction.accounts.giveOrderWallet;
+        const beneficiaryWallet = instruction.accounts.actionBeneficiaryWallet;
+        const inner = transaction.meta?.innerInstructions?.find(inner => inner.index === instruction.instIndex);
+        if (!inner) {
+            return null;
+        }
+        const firstIndex = instruction.innerIndex === null ? 0 : instruction.innerIndex + 1;
+        for (const innerInstruction of inner.instructions.slice(firstIndex) as ParsedInstruction[]) {
+            const parsed = innerInstruction.parsed;
+            if (parsed?.type !== "transfer" && parsed?.type !== "transferChecked") {
+                continue;
+            }
+            if (parsed.info?.source === giveOrderWallet && parsed.info?.destination === beneficiaryWallet) {
+                return innerInstruction;
+            }
+        }
+        return null;
+    }
+
+    _getAmountFromTransfer(transferInstruction: ParsedInstruction): string {
+        const info = transferInstruction.parsed?.info;
+        const rawAmount = info?.lamports ?? info?.amount ?? info?.tokenAmount?.amount;
+        if (rawAmount === undefined) {
+            return "0";
+        }
+        return String(rawAmount);
+    }
+
+    async _getTokenInfoFromInstruction(instruction: DecodedInstruction, tokensInfoCache: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<TokenInfo | null> {
+        const tokenAddress = instruction.accounts.tokenMint;
+        if (!tokenAddress) {
+            return null;
+        }
+        return getMintTokenInfo(tokenAddress, tokensInfoCache, transaction);
+    }
+}
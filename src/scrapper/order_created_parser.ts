@@ -1,75 +1,262 @@
 import BN from "bn.js";
+import { keccak_256 } from "@noble/hashes/sha3";
 import { Event } from "@coral-xyz/anchor";
-import { PublicKey } from "@solana/web3.js";
+import { ParsedTransactionWithMeta, PublicKey } from "@solana/web3.js";
 import { TokensInfoCache } from "../infrastructure/tokens_info_cache";
-import { ParsedOrderCreated } from "../interfaces/scrapper_interfaces";
+import { ChainAddress, DataQualityFlag, LostOrderReason, OrderDetails, ParsedOrderCreated } from "../interfaces/scrapper_interfaces";
 import { TokenInfo } from "../interfaces/infrastructure_interfaces";
+import { SOLANA_CHAIN_ID } from "../infrastructure/chains_registry";
+import { getOrderId } from "./order_id";
+import { DecodedInstruction } from "./instruction_decoder";
+import { getMintTokenInfo } from "./token_balances";
 
+// AAK: Global percent fee of DlnSource on Solana, it's in the state account that isn't in the transaction.
+// Orders restored with another fee don't match their giveOrderState and are not saved
+export const DEFAULT_PERCENT_FEE_BPS = 4;
+const BPS_DENOMINATOR = 10000;
 
 export class OrderCreatedParser{
-    
-    async parseOrderCreatedEvent(trnEvent: Event[], tokensInfo: TokensInfoCache): Promise<ParsedOrderCreated[] | null> {
-        // Return information about the "order created" event
-        // AAK: I'm not sure if it can be more than one "order created" event in the transaction. Because I couldn't ask the team
-        // then decide it will be just one. If not - we need to change the code to choose latest event.
-        const idEvent = trnEvent.find(event => event.name === "CreatedOrderId"); 
-        if (!idEvent) {
+    private srcProgramID: PublicKey;
+    private percentFeeBps: number;
+    // Created orders of the last parseCreateInstructionsWithoutEvents call that are not restored
+    lostOrders: LostOrderReason[] = [];
+
+    constructor(srcProgramID: PublicKey, percentFeeBps: number = DEFAULT_PERCENT_FEE_BPS) {
+        this.srcProgramID = srcProgramID;
+        this.percentFeeBps = percentFeeBps;
+        if (!this.srcProgramID) {
+            throw new Error("DLN_SRC_PROGRAM_ID is not set");
+        }
+        if (!Number.isInteger(this.percentFeeBps) || this.percentFeeBps < 0 || this.percentFeeBps > BPS_DENOMINATOR) {
+            throw new Error(`Wrong percent fee: ${this.percentFeeBps} bps`);
+        }
+    }
+
+    async parseOrderCreatedEvent(trnEvent: Event[], tokensInfo: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<ParsedOrderCreated[] | null> {
+        // Return information about all "order created" events, integrators can create several orders in one transaction.
+        // Each CreatedOrder is followed by its CreatedOrderId, so they are paired by the position in the logs
+        const orderEventIndexes = trnEvent.flatMap((event, index) => event.name === "CreatedOrder" ? [index] : []);
+        if (orderEventIndexes.length === 0) {
             return null;
         }
-        const orderEvent = trnEvent.find(event => event.name === "CreatedOrder");
-        if (!orderEvent) {
+        const orderCreatedEvents: ParsedOrderCreated[] = [];
+        for (const [position, orderEventIndex] of orderEventIndexes.entries()) {
+            const nextOrderEventIndex = orderEventIndexes[position + 1] ?? trnEvent.length;
+            const idEvent = trnEvent.slice(orderEventIndex + 1, nextOrderEventIndex).find(event => event.name === "CreatedOrderId");
+            const orderCreatedEvent = await this._parseOrderCreated(trnEvent[orderEventIndex], idEvent, tokensInfo, transaction);
+            if (orderCreatedEvent) {
+                orderCreatedEvents.push(orderCreatedEvent);
+            }
+        }
+        return orderCreatedEvents;
+    }
+
+    async parseCreateInstructionsWithoutEvents(srcEvents: Event[], srcInstructions: DecodedInstruction[], tokensInfo: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<ParsedOrderCreated[] | null> {
+        // Fallback for truncated logs: the order is built from createOrderWithNonce arguments the same way DlnSource does.
+        // The order ID is accepted only if its PDA is the giveOrderState account of the instruction
+        const signature = transaction.transaction.signatures[0];
+        const eventOrderIds = srcEvents.flatMap(event => {
+            if (event.name === "CreatedOrderId") {
+                return [Buffer.from(event.data.orderId as Uint8Array).toString("hex")];
+            }
+            return event.name === "CreatedOrder" ? [this._getOrderIdFromOrderEvent(event)] : [];
+        });
+        let orderCreatedEvents: ParsedOrderCreated[] = [];
+        this.lostOrders = [];
+        for (const instruction of srcInstructions) {
+            if (instruction.name !== "createOrder" && instruction.name !== "createOrderWithNonce") {
+                continue;
+            }
+            // Orders with events are matched by giveOrderState, so they are skipped even if the order can't be built from the instruction
+            if (eventOrderIds.some(eventOrderId => eventOrderId && this._isGiveOrderState(eventOrderId, instruction.accounts.giveOrderState))) {
+                continue;
+            }
+            if (instruction.name === "createOrder") {
+                // AAK: createOrder takes the nonce from the nonceMaster account, so its order ID can't be restored
+                console.error(`${signature}: Logs are truncated, created order of instruction ${instruction.instIndex} can't be restored without nonce`);
+                this.lostOrders.push("nonce_unknown");
+                continue;
+            }
+            // The same data as in the CreatedOrder event
+            const orderData = this._getOrderFromCreateInstruction(instruction);
+            const orderEvent = { name: "CreatedOrder", data: orderData } as Event;
+            const orderId = orderData ? this._getOrderIdFromOrderEvent(orderEvent) : null;
+            if (!orderId || !this._isGiveOrderState(orderId, instruction.accounts.giveOrderState)) {
+                console.error(`${signature}: Logs are truncated, created order of instruction ${instruction.instIndex} doesn't match its giveOrderState`);
+                this.lostOrders.push("give_order_state_mismatch");
+                continue;
+            }
+            const orderCreatedEvent = await this._parseOrderCreated(orderEvent, undefined, tokensInfo, transaction);
+            if (orderCreatedEvent) {
+                orderCreatedEvents.push({ ...orderCreatedEvent, dataQualityFlags: [...(orderCreatedEvent.dataQualityFlags ?? []), "instruction_fallback"] });
+            }
+        }
+        return orderCreatedEvents.length > 0 ? orderCreatedEvents : null;
+    }
+
+    _getOrderFromCreateInstruction(instruction: DecodedInstruction): { order: any, percentFee: BN } | null {
+        // DlnSource takes the percent fee from the original amount, then the affiliate fee, the rest is the give amount.
+        // Fixed fee is paid in SOL and isn't in the arguments, so it's left empty
+        const { orderArgs, affiliateFee, nonce } = instruction.data ?? {};
+        const maker = instruction.accounts.maker;
+        const tokenMint = instruction.accounts.tokenMint;
+        if (!orderArgs || nonce === undefined || !maker || !tokenMint) {
             return null;
         }
-        const orderId = Buffer.from(idEvent.data.orderId as Uint8Array).toString("hex");
-        const tokenInfoResult = await this._getTokenInfoFromOrderEvent(orderEvent, tokensInfo);
-        let tokenSymbol: string;
-        let decimals: number;
-        let tokenKey: string;
-        
-        if (!tokenInfoResult) { // AAK: Not sure what default values should be set here! Temporary set USDC and 6 decimals
-            tokenSymbol = 'USDC';
-            decimals = 6;
-            tokenKey = 'USDC';
+        const giveOriginalAmount = new BN(orderArgs.giveOriginalAmount.toString());
+        const percentFee = giveOriginalAmount.muln(this.percentFeeBps).divn(BPS_DENOMINATOR);
+        const giveAmount = giveOriginalAmount.sub(percentFee).sub(new BN(affiliateFee?.amount?.toString() ?? "0"));
+        if (giveAmount.isNeg()) {
+            return null;
+        }
+        return {
+            order: {
+                makerOrderNonce: nonce,
+                makerSrc: new PublicKey(maker).toBuffer(),
+                give: {
+                    chainId: new BN(SOLANA_CHAIN_ID).toArrayLike(Buffer, "be", 32),
+                    tokenAddress: new PublicKey(tokenMint).toBuffer(),
+                    amount: giveAmount.toArrayLike(Buffer, "be", 32),
+                },
+                take: orderArgs.take,
+                receiverDst: orderArgs.receiverDst,
+                givePatchAuthoritySrc: new PublicKey(orderArgs.givePatchAuthoritySrc).toBuffer(),
+                orderAuthorityAddressDst: orderArgs.orderAuthorityAddressDst,
+                allowedTakerDst: orderArgs.allowedTakerDst,
+                allowedCancelBeneficiarySrc: orderArgs.allowedCancelBeneficiarySrc ? new PublicKey(orderArgs.allowedCancelBeneficiarySrc).toBuffer() : null,
+                externalCall: orderArgs.externalCall ? { externalCallShortcut: Buffer.from(keccak_256(orderArgs.externalCall)) } : null,
+            },
+            percentFee: percentFee,
+        };
+    }
+
+    _isGiveOrderState(orderId: string, giveOrderState: string | undefined): boolean {
+        if (!giveOrderState) {
+            return false;
+        }
+        const [expectedGiveOrderState] = PublicKey.findProgramAddressSync([Buffer.from("GIVE_ORDER_STATE"), Buffer.from(orderId, "hex")], this.srcProgramID);
+        return expectedGiveOrderState.toString() === giveOrderState;
+    }
+
+    async _parseOrderCreated(orderEvent: Event, idEvent: Event | undefined, tokensInfo: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<ParsedOrderCreated | null> {
+        // CreatedOrderId goes after CreatedOrder and can be lost in truncated logs, so the order ID is derived from the order.
+        // The event is still preferred, a mismatch means the derivation is outdated (e.g. the IDL is changed)
+        const derivedOrderId = this._getOrderIdFromOrderEvent(orderEvent);
+        const dataQualityFlags: DataQualityFlag[] = [];
+        let orderId: string;
+        if (idEvent) {
+            orderId = Buffer.from(idEvent.data.orderId as Uint8Array).toString("hex");
+            if (orderId !== derivedOrderId) {
+                console.error(`Order ID ${orderId} doesn't match the derived ${derivedOrderId}`);
+                dataQualityFlags.push("order_id_mismatch");
+            }
+        } else if (derivedOrderId) {
+            orderId = derivedOrderId;
         } else {
-            tokenSymbol = tokenInfoResult.symbol;
-            decimals = tokenInfoResult.precision;
-            tokenKey = tokenInfoResult.key;
-        }
-        const amount = this._getAmountFromOrderEvent(orderEvent, decimals);
-        const percentFee = this._getFeeFromOrderEvent(orderEvent, "percentFee", decimals);
-        const fixedFee = this._getFeeFromOrderEvent(orderEvent, "fixedFee", decimals);
-        return [{
+            return null;
+        }
+        const tokenInfoResult = await this._getTokenInfoFromOrderEvent(orderEvent, tokensInfo, transaction);
+        if (!tokenInfoResult) {
+            console.error(`${transaction.transaction.signatures[0]}: Token info not found for order ${orderId}`);
+            return null;
+        }
+        const tokenSymbol = tokenInfoResult.symbol;
+        const decimals = tokenInfoResult.precision;
+        const tokenKey = tokenInfoResult.key;
+        const amount = this._getAmountFromOrderEvent(orderEvent);
+        const percentFee = this._getFeeFromOrderEvent(orderEvent, "percentFee");
+        // Fixed fee of DlnSource is paid in SOL lamports, not in the give token
+        const fixedFee = this._getFeeFromOrderEvent(orderEvent, "fixFee");
+        const details = this._getOrderDetailsFromOrderEvent(orderEvent);
+        if (!details) {
+            return null;
+        }
+        return {
             'orderId': orderId,
             'status': 'created',
             'amount': amount,
+            'decimals': decimals,
             'percentFee': percentFee,
             'fixedFee': fixedFee,
             'tokenSymbol': tokenSymbol,
-            'tokenKey': tokenKey
-        }];
+            'tokenKey': tokenKey,
+            'details': details,
+            'dataQualityFlags': dataQualityFlags.length > 0 ? dataQualityFlags : undefined
+        };
+    }
+
+    _getOrderIdFromOrderEvent(orderEvent: Event): string | null {
+        const order = (orderEvent?.data as any)?.order;
+        if (!order?.give || !order?.take) {
+            return null;
+        }
+        try {
+            return getOrderId(order);
+        } catch (e: any) {
+            console.error(`Order ID can't be derived: ${e.message}`);
+            return null;
+        }
     }
 
-    _getAmountFromOrderEvent(orderEvent: Event, decimals: number): number {
+    _getAmountFromOrderEvent(orderEvent: Event): string {
+        // Raw amount is kept as a string, it's scaled by decimals in the DB to not lose precision
         const eventData = orderEvent?.data as any;
         const giveAmountRaw = eventData?.order?.give?.amount;
         if (!giveAmountRaw) {
-            return 0;
+            return "0";
         }
-        const giveAmountBigInt = new BN(Buffer.from(giveAmountRaw), 'be').toString();
-        const giveAmount = Number(giveAmountBigInt) / 10 ** decimals; 
-        return giveAmount;
+        return this._getUint256(giveAmountRaw);
     }
     
-    _getFeeFromOrderEvent(orderEvent: Event, fieldName: string, decimals: number): number {
+    _getFeeFromOrderEvent(orderEvent: Event, fieldName: string): string {
         const eventData = orderEvent?.data as any;
         const feeRaw = eventData?.[fieldName];
         if (!feeRaw) {
-            return 0;
+            return "0";
+        }
+        return feeRaw.toString();
+    }
+
+    _getOrderDetailsFromOrderEvent(orderEvent: Event): OrderDetails | null {
+        // Addresses are stored for the chain where they are used: *Src - give chain, *Dst - take chain
+        const order = (orderEvent?.data as any)?.order;
+        if (!order?.give || !order?.take) {
+            return null;
         }
-        return Number(feeRaw.toString()) / 10 ** decimals;
+        const giveChainId = this._getUint256(order.give.chainId);
+        const takeChainId = this._getUint256(order.take.chainId);
+        return {
+            makerOrderNonce: order.makerOrderNonce.toString(),
+            makerSrc: this._getChainAddress(order.makerSrc, giveChainId),
+            giveChainId: giveChainId,
+            giveTokenAddress: this._getChainAddress(order.give.tokenAddress, giveChainId),
+            giveAmount: this._getUint256(order.give.amount),
+            takeChainId: takeChainId,
+            takeTokenAddress: this._getChainAddress(order.take.tokenAddress, takeChainId),
+            takeAmount: this._getUint256(order.take.amount),
+            receiverDst: this._getChainAddress(order.receiverDst, takeChainId),
+            givePatchAuthoritySrc: this._getChainAddress(order.givePatchAuthoritySrc, giveChainId),
+            orderAuthorityAddressDst: this._getChainAddress(order.orderAuthorityAddressDst, takeChainId),
+            allowedTakerDst: order.allowedTakerDst ? this._getChainAddress(order.allowedTakerDst, takeChainId) : null,
+            allowedCancelBeneficiarySrc: order.allowedCancelBeneficiarySrc ? this._getChainAddress(order.allowedCancelBeneficiarySrc, giveChainId) : null,
+            externalCallShortcut: order.externalCall ? Buffer.from(order.externalCall.externalCallShortcut).toString("hex") : null,
+        };
+    }
+
+    _getUint256(value: Uint8Array | number[]): string {
+        // Chain IDs and amounts in the order are big-endian u256
+        return new BN(Buffer.from(value), 'be').toString();
+    }
+
+    _getChainAddress(address: Uint8Array | number[], chainId: string): ChainAddress {
+        const addressBytes = Buffer.from(address);
+        return {
+            hex: addressBytes.toString("hex"),
+            base58: chainId === SOLANA_CHAIN_ID && addressBytes.length === 32 ? new PublicKey(addressBytes).toBase58() : null,
+        };
     }
 
-    async _getTokenInfoFromOrderEvent(orderEvent: Event, tokensInfo: TokensInfoCache): Promise<TokenInfo | null> {
+    async _getTokenInfoFromOrderEvent(orderEvent: Event, tokensInfo: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<TokenInfo | null> {
         const eventData = orderEvent?.data as any;
         const tokenAddressBytes = eventData?.order?.give?.tokenAddress;
         if (!tokenAddressBytes) {
@@ -86,7 +273,7 @@ export class OrderCreatedParser{
         if (!pubkey) {
             return null;
         }
-        return await tokensInfo.getTokenInfo(pubkey);
+        return await getMintTokenInfo(pubkey.toString(), tokensInfo, transaction);
     }
 
 }
\ No newline at end of file
@@ -1,8 +1,24 @@
 import { Event} from "@coral-xyz/anchor";
-import { CompiledInstruction, ParsedInnerInstruction, ParsedInstruction, ParsedTransactionWithMeta, PublicKey, TransactionResponse } from "@solana/web3.js";
+import { CompiledInstruction, ParsedInstruction, ParsedTransactionWithMeta, PublicKey, TokenBalance, TransactionResponse } from "@solana/web3.js";
 import { TokensInfoCache } from "../infrastructure/tokens_info_cache";
 import type { TokenInfo } from "../interfaces/infrastructure_interfaces";
-import { ParsedOrderFilled } from "../interfaces/scrapper_interfaces";
+import { AmountExtractionMethod, ParsedOrderFilled } from "../interfaces/scrapper_interfaces";
+import { DecodedInstruction } from "./instruction_decoder";
+import { getMintTokenInfo, getTokenInfoFromBalances } from "./token_balances";
+
+const SYSTEM_PROGRAM_ID = "11111111111111111111111111111111";
+// Legacy SPL Token and Token-2022 programs, they have the same transfer instructions
+const TOKEN_PROGRAMS: Record<string, string> = {
+    "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA": "spl-token",
+    "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb": "spl-token-2022",
+};
+const TRANSFER_TYPES = ["transfer", "transferChecked", "transferCheckedWithFee"];
+
+interface FilledAmount {
+    amount: string;
+    tokenInfo: TokenInfo;
+    extractionMethod: AmountExtractionMethod;
+}
 
 export class OrderFulfilledParser{
     private dstProgramID: PublicKey;
@@ -13,132 +29,297 @@ export class OrderFulfilledParser{
         }
     }
 
-    async  parseOrderFilledEvent(dstEvents: Event[], tokensInfo: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<ParsedOrderFilled[] | null> {
+    async  parseOrderFilledEvent(dstEvents: Event[], dstInstructions: DecodedInstruction[], tokensInfo: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<ParsedOrderFilled[] | null> {
         const idEvent = dstEvents.filter(event => event.name === "Fulfilled");
-        if (!idEvent) {
+        if (idEvent.length === 0) {
             return null;
         }
-        let fulfilledEventsIDs: string[] = [];
+        // Fulfilled event has the order ID, so it's linked with fulfillOrder by the order ID argument.
+        // fulfillOrder can be called by another program (e.g. aggregator), so CPI calls are decoded too
+        let orderFilledEvents: ParsedOrderFilled[] = [];
         for (const event of idEvent) {
             const orderId = Buffer.from(event.data.orderId as Uint8Array).toString("hex");
-            fulfilledEventsIDs.push(orderId);
+            const instruction = this._getFulfillInstruction(orderId, dstInstructions);
+            if (!instruction) {
+                console.error(`${transaction.transaction.signatures[0]}: fulfillOrder not found for order ${orderId}`);
+                continue;
+            }
+            const filledAmount = await this._getFilledAmountFromTransfer(instruction, tokensInfo, transaction)
+                ?? await this._getFilledAmountFromBalances(instruction, dstInstructions, tokensInfo, transaction);
+            if (!filledAmount) {
+                console.error(`${transaction.transaction.signatures[0]}: Filled amount not found for order ${orderId}`);
+                continue;
+            }
+
+            orderFilledEvents.push({
+                orderId: orderId,
+                amount: filledAmount.amount,
+                decimals: filledAmount.tokenInfo.precision,
+                status: 'filled',
+                tokenKey: filledAmount.tokenInfo.key,
+                tokenSymbol: filledAmount.tokenInfo.symbol,
+                actor: (event.data.taker as PublicKey).toString(),
+                extractionMethod: filledAmount.extractionMethod
+            });
         }
-        let fulfilledEventsInstIndexes: number[] = this._getFulfilledEventsInstIndexes(transaction, this.dstProgramID, "FulfillOrder");  // We need to get the instruction index of the fulfilled events to get amount information
-        if (fulfilledEventsInstIndexes.length !== fulfilledEventsIDs.length) {
-            console.error(`${transaction.transaction.signatures[0]}: Fulfilled events inst indexes (${fulfilledEventsInstIndexes.length}) and IDs length (${fulfilledEventsIDs.length}) mismatch`)  ;
+
+        return orderFilledEvents;
+    }
+
+    async parseFulfillInstructionsWithoutEvents(dstEvents: Event[], dstInstructions: DecodedInstruction[], tokensInfo: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<ParsedOrderFilled[] | null> {
+        // Fallback for truncated logs: Fulfilled events can be cut off, but fulfillOrder has the order ID and the taker
+        const eventOrderIds = dstEvents.filter(event => event.name === "Fulfilled").map(event => Buffer.from(event.data.orderId as Uint8Array).toString("hex"));
+        const orderIds = dstInstructions
+            .filter(instruction => instruction.name === "fulfillOrder" && instruction.data?.orderId)
+            .map(instruction => Buffer.from(instruction.data.orderId as Uint8Array).toString("hex"))
+            .filter(orderId => !eventOrderIds.includes(orderId));
+        if (orderIds.length === 0) {
             return null;
         }
 
         let orderFilledEvents: ParsedOrderFilled[] = [];
-        for (let i = 0; i < fulfilledEventsIDs.length; i++) {
-            const innerTransferInstruction = this._getTransferInnerInstruction(transaction, fulfilledEventsInstIndexes[i]);
-            if (!innerTransferInstruction) {
-                console.error(`${transaction.transaction.signatures[0]}: Transfer inner instruction not found for order ${fulfilledEventsIDs[i]}`);
+        for (const orderId of orderIds) {
+            const instruction = this._getFulfillInstruction(orderId, dstInstructions);
+            const taker = instruction?.accounts.taker;
+            if (!instruction || !taker) {
+                console.error(`${transaction.transaction.signatures[0]}: fulfillOrder is not valid for order ${orderId}`);
                 continue;
             }
-            const tokenInfoResult = await this._getTokenInfoFromInstruction(innerTransferInstruction, tokensInfo);
-            if (!tokenInfoResult) {
-                console.error(`${transaction.transaction.signatures[0]}: Token info not found for order ${fulfilledEventsIDs[i]}`);
+            const filledAmount = await this._getFilledAmountFromTransfer(instruction, tokensInfo, transaction)
+                ?? await this._getFilledAmountFromBalances(instruction, dstInstructions, tokensInfo, transaction);
+            if (!filledAmount) {
+                console.error(`${transaction.transaction.signatures[0]}: Filled amount not found for order ${orderId}`);
                 continue;
             }
-            const tokenSymbol = tokenInfoResult.symbol;
-            const tokenKey = tokenInfoResult.key;
-            const amount = this._getAmountFromInstruction(innerTransferInstruction, tokenInfoResult);
-
             orderFilledEvents.push({
-                orderId: fulfilledEventsIDs[i],
-                amount: amount,
+                orderId: orderId,
+                amount: filledAmount.amount,
+                decimals: filledAmount.tokenInfo.precision,
                 status: 'filled',
-                tokenKey: tokenKey,
-                tokenSymbol: tokenSymbol
+                tokenKey: filledAmount.tokenInfo.key,
+                tokenSymbol: filledAmount.tokenInfo.symbol,
+                actor: taker,
+                extractionMethod: filledAmount.extractionMethod,
+                dataQualityFlags: ["instruction_fallback"]
             });
         }
-
         return orderFilledEvents;
     }
 
-    _getAmountFromInstruction(innerTransferInstruction: ParsedInstruction, tokenInfoResult: TokenInfo): number {
+    _getFulfillInstruction(orderId: string, dstInstructions: DecodedInstruction[]): DecodedInstruction | null {
+        // takeOrderState is the PDA of the order ID. AAK: If they don't match, the instruction was decoded with the wrong IDL
+        for (const instruction of dstInstructions) {
+            if (instruction.name !== "fulfillOrder" || !instruction.data?.orderId) {
+                continue;
+            }
+            const orderIdBytes = Buffer.from(instruction.data.orderId as Uint8Array);
+            if (orderIdBytes.toString("hex") !== orderId) {
+                continue;
+            }
+            const takeOrderState = instruction.accounts.takeOrderState;
+            if (takeOrderState) {
+                const [expectedTakeOrderState] = PublicKey.findProgramAddressSync([Buffer.from("TAKE_ORDER_STATE"), orderIdBytes], this.dstProgramID);
+                if (expectedTakeOrderState.toString() !== takeOrderState) {
+                    continue;
+                }
+            }
+            return instruction;
+        }
+        return null;
+    }
+
+    async _getFilledAmountFromTransfer(instruction: DecodedInstruction, tokensInfo: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<FilledAmount | null> {
+        // Primary method: the transfer from the taker made by fulfillOrder
+        const innerTransferInstruction = this._getTransferInnerInstruction(transaction, instruction);
+        if (!innerTransferInstruction) {
+            console.error(`${transaction.transaction.signatures[0]}: Transfer inner instruction not found for instruction ${instruction.instIndex}, balances are used`);
+            return null;
+        }
+        const tokenInfo = await this._getTokenInfoFromInstruction(innerTransferInstruction, tokensInfo, transaction);
+        if (!tokenInfo) {
+            console.error(`${transaction.transaction.signatures[0]}: Token info not found for instruction ${instruction.instIndex}, balances are used`);
+            return null;
+        }
+        return {
+            amount: this._getReceivedAmount(innerTransferInstruction, transaction),
+            tokenInfo: tokenInfo,
+            extractionMethod: "transfer",
+        };
+    }
+
+    async _getFilledAmountFromBalances(instruction: DecodedInstruction, dstInstructions: DecodedInstruction[], tokensInfo: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<FilledAmount | null> {
+        // Fallback method: the balance change of receiverDst of the fulfillOrder instruction.
+        // AAK: If receiverDst gets several fills in one transaction, the change can't be split between them.
+        // If the order has an external call, the tokens go to another wallet and receiverDst has no change.
+        const receiver = instruction.accounts.receiverDst;
+        if (!receiver) {
+            return null;
+        }
+        const fulfillInstructions = dstInstructions.filter(dstInstruction => dstInstruction.name === "fulfillOrder");
+        if (fulfillInstructions.filter(fulfillInstruction => fulfillInstruction.accounts.receiverDst === receiver).length > 1) {
+            return null;
+        }
+        const accountIndex = (transaction.transaction.message.accountKeys || []).findIndex(account => account.pubkey.toString() === receiver);
+        if (accountIndex === -1) {
+            return null;
+        }
+
+        const preTokenBalance = transaction.meta?.preTokenBalances?.find(balance => balance.accountIndex === accountIndex);
+        const postTokenBalance = transaction.meta?.postTokenBalances?.find(balance => balance.accountIndex === accountIndex);
+        let delta: bigint;
+        let tokenInfo: TokenInfo | null;
+        if (preTokenBalance || postTokenBalance) {
+            const mint = (postTokenBalance ?? preTokenBalance)!.mint;
+            delta = BigInt(postTokenBalance?.uiTokenAmount.amount ?? 0) - BigInt(preTokenBalance?.uiTokenAmount.amount ?? 0);
+            tokenInfo = await getMintTokenInfo(mint, tokensInfo, transaction);
+        } else {
+            const preBalance = transaction.meta?.preBalances?.[accountIndex];
+            const postBalance = transaction.meta?.postBalances?.[accountIndex];
+            if (preBalance === undefined || postBalance === undefined) {
+                return null;
+            }
+            delta = BigInt(postBalance) - BigInt(preBalance);
+            tokenInfo = await this._getNativeSolTokenInfo(tokensInfo);
+        }
+        if (delta <= 0n || !tokenInfo) {
+            return null;
+        }
+        return {
+            amount: delta.toString(),
+            tokenInfo: tokenInfo,
+            extractionMethod: "balance_delta",
+        };
+    }
+
+    _getAmountFromInstruction(innerTransferInstruction: ParsedInstruction): string {
+        // Raw amount in the smallest units, lamports can be a number, token amounts are strings
+        // For Token-2022 mints with the transfer fee extension the fee is withheld from the transfer, so the receiver gets the amount without it
         const programId = innerTransferInstruction.programId.toString();
         const parsedData = innerTransferInstruction.parsed as any;
         if (!parsedData) {
-            return 0;
+            return "0";
         }
-        if (programId === "11111111111111111111111111111111") {
-            return parsedData.info?.lamports / 10 ** tokenInfoResult.precision;
+        if (programId === SYSTEM_PROGRAM_ID) {
+            return String(parsedData.info?.lamports ?? 0);
         }
-        if (innerTransferInstruction.program.toString() === 'spl-token' || innerTransferInstruction.programId.toString() === "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA") {
-            return Number(parsedData.info?.amount) || Number(parsedData.info?.tokenAmount?.amount) / 10 ** tokenInfoResult.precision;
+        if (this._isTokenProgramInstruction(innerTransferInstruction)) {
+            const amount = BigInt(parsedData.info?.amount ?? parsedData.info?.tokenAmount?.amount ?? 0);
+            const feeAmount = BigInt(parsedData.info?.feeAmount?.amount ?? 0);
+            return (amount - feeAmount).toString();
         }
-        return 0;
+        return "0";
     }
 
-    _getTransferInnerInstruction(transaction: ParsedTransactionWithMeta, instIndex: number): ParsedInstruction | null {
-        const instruction =  transaction.meta?.innerInstructions?.find(
-            inner => inner.index === instIndex
-        ) as ParsedInnerInstruction | null;
-        if (!instruction) {
-            return null;
+    _getReceivedAmount(innerTransferInstruction: ParsedInstruction, transaction: ParsedTransactionWithMeta): string {
+        // Token-2022 mints with the transfer fee extension withhold the fee from plain transfer and transferChecked too,
+        // and only transferCheckedWithFee has the fee, so the receiver gets the balance change of the destination account.
+        // AAK: If the destination gets other tokens in the transaction, its change is more than the transfer and the transfer amount is used
+        const amount = this._getAmountFromInstruction(innerTransferInstruction);
+        if (!this._isToken2022Instruction(innerTransferInstruction)) {
+            return amount;
         }
-        const innerInstructions = instruction.instructions as ParsedInstruction[];
-        for (const innerInstruction of innerInstructions) {
-            if (innerInstruction.parsed?.type === "transfer" || innerInstruction.parsed?.type === "transferChecked") {
-                return innerInstruction as ParsedInstruction;
-            }
+        const delta = this._getTokenBalanceDelta(transaction, (innerTransferInstruction.parsed as any)?.info?.destination);
+        if (delta === null || delta <= 0n || delta > BigInt(amount)) {
+            return amount;
         }
-        return null;
+        return delta.toString();
     }
 
-    _getFulfilledEventsInstIndexes(transaction: ParsedTransactionWithMeta, programID: PublicKey, eventName: string): number[] {
-        const instIndexes: number[] = [];
-        let programInvokeCounter = -1;
-        let invokeCounter = 0;
-        const logMessages = transaction.meta?.logMessages || [];
-        const programIDString = programID.toString();
-        for (const message of logMessages) {
-            if (message.includes(programIDString) && message.includes('invoke [1]')) {
-                programInvokeCounter = invokeCounter;
-                invokeCounter++;
-            } else if (message.includes('invoke [1]')){
-                invokeCounter++;
+    _isToken2022Instruction(instruction: ParsedInstruction): boolean {
+        return TOKEN_PROGRAMS[instruction.programId.toString()] === "spl-token-2022" || instruction.program === "spl-token-2022";
+    }
+
+    _isTokenProgramInstruction(instruction: ParsedInstruction): boolean {
+        const programId = instruction.programId.toString();
+        return programId in TOKEN_PROGRAMS || Object.values(TOKEN_PROGRAMS).includes(instruction.program);
+    }
+
+    _getTransferInnerInstruction(transaction: ParsedTransactionWithMeta, instruction: DecodedInstruction): ParsedInstruction | null {
+        // Transfer from the taker is done by fulfillOrder itself, so it follows the instruction in the inner instructions.
+        // Taker pays SOL from its own account and tokens from takerWallet
+        const inner = transaction.meta?.innerInstructions?.find(inner => inner.index === instruction.instIndex);
+        if (!inner) {
+            return null;
+        }
+        const takerAccounts = [instruction.accounts.taker, instruction.accounts.takerWallet];
+        const firstIndex = instruction.innerIndex === null ? 0 : instruction.innerIndex + 1;
+        for (const innerInstruction of inner.instructions.slice(firstIndex) as ParsedInstruction[]) {
+            const parsed = innerInstruction.parsed;
+            if (!TRANSFER_TYPES.includes(parsed?.type)) {
+                continue;
             }
-            if (message.includes(eventName) && (programInvokeCounter!== 0)) {
-                instIndexes.push(programInvokeCounter);
-                programInvokeCounter = -1;
+            if (takerAccounts.includes(parsed.info?.source)) {
+                return innerInstruction;
             }
         }
-        return instIndexes;
+        return null;
     }
 
-    async _getTokenInfoFromInstruction(instruction: ParsedInstruction, tokensInfoCache: TokensInfoCache): Promise<TokenInfo | null> {
-        if (instruction.programId.toString() === "11111111111111111111111111111111") {
-            const tokenPublicKey = new PublicKey("So11111111111111111111111111111111111111112");
-            let tokenInfo: TokenInfo | null = await tokensInfoCache.getTokenInfo(tokenPublicKey);
-            if (!tokenInfo) {
-                tokenInfo = {
-                    key: tokenPublicKey.toString(),
-                    symbol: 'SOL',
-                    precision: 9
-                };
-            }
-            return tokenInfo;
+    async _getTokenInfoFromInstruction(instruction: ParsedInstruction, tokensInfoCache: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<TokenInfo | null> {
+        if (instruction.programId.toString() === SYSTEM_PROGRAM_ID) {
+            return this._getNativeSolTokenInfo(tokensInfoCache);
         }
 
-        if (instruction.program === 'spl-token') {
+        if (this._isTokenProgramInstruction(instruction)) {
             const infoInstr = instruction.parsed?.info as any;
             if (!infoInstr) {
                 return null;
             }
+            // transferChecked has the mint, plain transfer has only token accounts
+            const balance = this._getTokenBalance(transaction, [infoInstr.source, infoInstr.destination]);
+            const tokenAddress: string | undefined = infoInstr.mint ?? balance?.mint;
+            if (!tokenAddress) {
+                return null;
+            }
+            const tokenInfo: TokenInfo | null = await tokensInfoCache.getTokenInfo(new PublicKey(tokenAddress));
+            if (tokenInfo) {
+                return tokenInfo;
+            }
+            // AAK: Decimals of an unknown token are taken from the transaction, without them the transfer isn't used
+            if (infoInstr.tokenAmount?.decimals !== undefined) {
+                return { key: tokenAddress, symbol: tokenAddress, precision: infoInstr.tokenAmount.decimals };
+            }
+            return getTokenInfoFromBalances(tokenAddress, transaction);
+        }
+        return null;
+    }
+
+    async _getNativeSolTokenInfo(tokensInfoCache: TokensInfoCache): Promise<TokenInfo> {
+        const tokenPublicKey = new PublicKey("So11111111111111111111111111111111111111112");
+        let tokenInfo: TokenInfo | null = await tokensInfoCache.getTokenInfo(tokenPublicKey);
+        if (!tokenInfo) {
+            tokenInfo = {
+                key: tokenPublicKey.toString(),
+                symbol: 'SOL',
+                precision: 9
+            };
+        }
+        return tokenInfo;
+    }
+
+    _getTokenBalanceDelta(transaction: ParsedTransactionWithMeta, tokenAccount: string | undefined): bigint | null {
+        const accountIndex = (transaction.transaction?.message?.accountKeys || []).findIndex(account => account.pubkey?.toString() === tokenAccount);
+        if (!tokenAccount || accountIndex === -1) {
+            return null;
+        }
+        const preTokenBalance = transaction.meta?.preTokenBalances?.find(balance => balance.accountIndex === accountIndex);
+        const postTokenBalance = transaction.meta?.postTokenBalances?.find(balance => balance.accountIndex === accountIndex);
+        if (!preTokenBalance && !postTokenBalance) {
+            return null;
+        }
+        return BigInt(postTokenBalance?.uiTokenAmount.amount ?? 0) - BigInt(preTokenBalance?.uiTokenAmount.amount ?? 0);
+    }
 
-            const tokenAddress = infoInstr.mint;
-            let tokenInfo: TokenInfo | null = await tokensInfoCache.getTokenInfo(new PublicKey(tokenAddress));
-            if (!tokenInfo) { // AAK: Not sure what default values should be set here! Temporary set USDC and 6 decimals
-                tokenInfo = {
-                    key: tokenAddress,
-                    symbol: tokenAddress,
-                    precision: 6
-                };
+    _getTokenBalance(transaction: ParsedTransactionWithMeta, tokenAccounts: (string | undefined)[]): TokenBalance | null {
+        // Token balances are linked with accounts by index. Post balances are checked first,
+        // the source account can be closed in the same transaction and be only in pre balances
+        const accountKeys = transaction.transaction?.message?.accountKeys || [];
+        const balances = [...(transaction.meta?.postTokenBalances || []), ...(transaction.meta?.preTokenBalances || [])];
+        for (const balance of balances) {
+            const account = accountKeys[balance.accountIndex]?.pubkey?.toString();
+            if (account && tokenAccounts.includes(account)) {
+                return balance;
             }
-            return tokenInfo;
         }
         return null;
     }
@@ -0,0 +1,39 @@
+import BN from "bn.js";
+import { keccak_256 } from "@noble/hashes/sha3";
+
+// Order ID is keccak256 of the packed order, the same as DlnOrderLib.encodeOrder of the EVM contracts:
+// addresses are prefixed with their length, u256 values are 32 bytes big-endian, makerOrderNonce is u64.
+// AAK: Solana order has the shortcut (keccak256) of the external call instead of the call itself, so it's packed as is
+export function getOrderId(order: any): string {
+    return Buffer.from(keccak_256(encodeOrder(order))).toString("hex");
+}
+
+export function encodeOrder(order: any): Buffer {
+    const makerOrderNonce = new BN(order.makerOrderNonce.toString()).toArrayLike(Buffer, "be", 8);
+    const externalCallShortcut = order.externalCall?.externalCallShortcut;
+    return Buffer.concat([
+        makerOrderNonce,
+        _packAddress(order.makerSrc),
+        Buffer.from(order.give.chainId),
+        _packAddress(order.give.tokenAddress),
+        Buffer.from(order.give.amount),
+        Buffer.from(order.take.chainId),
+        _packAddress(order.take.tokenAddress),
+        Buffer.from(order.take.amount),
+        _packAddress(order.receiverDst),
+        _packAddress(order.givePatchAuthoritySrc),
+        _packAddress(order.orderAuthorityAddressDst),
+        // Missing optional addresses are packed as empty
+        _packAddress(order.allowedTakerDst ?? []),
+        _packAddress(order.allowedCancelBeneficiarySrc ?? []),
+        externalCallShortcut ? Buffer.concat([Buffer.from([1]), Buffer.from(externalCallShortcut)]) : Buffer.from([0]),
+    ]);
+}
+
+function _packAddress(address: Uint8Array | number[]): Buffer {
+    const addressBytes = Buffer.from(address);
+    if (addressBytes.length > 255) {
+        throw new Error(`Wrong address length: ${addressBytes.length}`);
+    }
+    return Buffer.concat([Buffer.from([addressBytes.length]), addressBytes]);
+}
@@ -0,0 +1,120 @@
+import { Event } from "@coral-xyz/anchor";
+import { ParsedTransactionWithMeta, PublicKey } from "@solana/web3.js";
+import { TokensInfoCache } from "../infrastructure/tokens_info_cache";
+import type { TokenInfo } from "../interfaces/infrastructure_interfaces";
+import { ParsedOrderPatched } from "../interfaces/scrapper_interfaces";
+import { DecodedInstruction, matchEventsWithInstructions } from "./instruction_decoder";
+import { getMintTokenInfo, getTakeTokenInfoFromOrder } from "./token_balances";
+
+export class OrderPatchedParser {
+    private srcProgramID: PublicKey;
+    constructor(srcProgramID: PublicKey) {
+        this.srcProgramID = srcProgramID;
+        if (!this.srcProgramID) {
+            throw new Error("DLN_SRC_PROGRAM_ID is not set");
+        }
+    }
+
+    async parseGivePatchEvent(srcEvents: Event[], srcInstructions: DecodedInstruction[], tokensInfo: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<ParsedOrderPatched[] | null> {
+        // IncreasedGiveAmount has final amounts but no order ID, so it's linked with patchOrderGive by the order of execution
+        const patches = matchEventsWithInstructions(srcEvents, srcInstructions, { patchOrderGive: "IncreasedGiveAmount" });
+        if (patches === null) {
+            console.error(`${transaction.transaction.signatures[0]}: Give patch instructions and events length mismatch`);
+            return null;
+        }
+        if (patches.length === 0) {
+            return null;
+        }
+
+        const orderPatchedEvents: ParsedOrderPatched[] = [];
+        for (const { event, instruction } of patches) {
+            const orderId = this._getOrderIdFromInstruction(instruction);
+            if (!orderId) {
+                console.error(`${transaction.transaction.signatures[0]}: Order ID not found for ${instruction.name}`);
+                continue;
+            }
+            const tokenInfo = await this._getTokenInfoFromWallet(instruction.accounts.giveOrderWallet, tokensInfo, transaction);
+            if (!tokenInfo) {
+                console.error(`${transaction.transaction.signatures[0]}: Token info not found for order ${orderId}`);
+                continue;
+            }
+            const eventData = event.data as any;
+            orderPatchedEvents.push({
+                orderId: orderId,
+                status: "give_patched",
+                amount: eventData.orderGiveFinalAmount.toString(),
+                decimals: tokenInfo.precision,
+                percentFee: eventData.finalPercentFee.toString(),
+                tokenKey: tokenInfo.key,
+                tokenSymbol: tokenInfo.symbol,
+                actor: instruction.accounts.givePatchAuthority,
+            });
+        }
+        return orderPatchedEvents;
+    }
+
+    async parseTakePatchEvent(dstEvents: Event[], dstInstructions: DecodedInstruction[], tokensInfo: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<ParsedOrderPatched[] | null> {
+        // DecreaseTakeAmount has the order ID, the take token is taken from the order in patchTakeOrder
+        const decreaseEvents = dstEvents.filter(event => event.name === "DecreaseTakeAmount");
+        if (decreaseEvents.length === 0) {
+            return null;
+        }
+        const patchInstructions = dstInstructions.filter(instruction => instruction.name === "patchTakeOrder");
+
+        const orderPatchedEvents: ParsedOrderPatched[] = [];
+        for (const event of decreaseEvents) {
+            const eventData = event.data as any;
+            const orderId = Buffer.from(eventData.orderId).toString("hex");
+            const instruction = patchInstructions.find(instruction => Buffer.from(instruction.data.orderId).toString("hex") === orderId);
+            if (!instruction) {
+                console.error(`${transaction.transaction.signatures[0]}: patchTakeOrder not found for order ${orderId}`);
+                continue;
+            }
+            const tokenInfo = await getTakeTokenInfoFromOrder(instruction.data.unvalidatedOrder, tokensInfo, transaction);
+            if (!tokenInfo) {
+                console.error(`${transaction.transaction.signatures[0]}: Token info not found for order ${orderId}`);
+                continue;
+            }
+            orderPatchedEvents.push({
+                orderId: orderId,
+                status: "take_patched",
+                amount: eventData.orderTakeFinalAmount.toString(),
+                decimals: tokenInfo.precision,
+                tokenKey: tokenInfo.key,
+                tokenSymbol: tokenInfo.symbol,
+                actor: instruction.accounts.patcher,
+            });
+        }
+        return orderPatchedEvents;
+    }
+
+    _getOrderIdFromInstruction(instruction: DecodedInstruction): string | null {
+        // Order ID is an argument of patchOrderGive, giveOrderState is the PDA of this order ID
+        const orderIdRaw = instruction.data?.orderId;
+        if (!orderIdRaw) {
+            return null;
+        }
+        const orderIdBytes = Buffer.from(orderIdRaw as Uint8Array);
+        const giveOrderState = instruction.accounts.giveOrderState;
+        if (giveOrderState) {
+            const [expectedGiveOrderState] = PublicKey.findProgramAddressSync([Buffer.from("GIVE_ORDER_STATE"), orderIdBytes], this.srcProgramID);
+            if (expectedGiveOrderState.toString() !== giveOrderState) {
+                return null;
+            }
+        }
+        return orderIdBytes.toString("hex");
+    }
+
+    async _getTokenInfoFromWallet(wallet: string | undefined, tokensInfoCache: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<TokenInfo | null> {
+        // patchOrderGive has no mint account, the mint is taken from the token balance of the order wallet
+        if (!wallet) {
+            return null;
+        }
+        const accountKeys = transaction.transaction.message.accountKeys || [];
+        const balance = (transaction.meta?.postTokenBalances || []).find(balance => accountKeys[balance.accountIndex]?.pubkey?.toString() === wallet);
+        if (!balance) {
+            return null;
+        }
+        return getMintTokenInfo(balance.mint, tokensInfoCache, transaction);
+    }
+}
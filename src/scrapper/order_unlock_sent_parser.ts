@@ -0,0 +1,116 @@
+import { Event } from "@coral-xyz/anchor";
+import { ParsedTransactionWithMeta, PublicKey } from "@solana/web3.js";
+import { ParsedOrderUnlockSent } from "../interfaces/scrapper_interfaces";
+import { DecodedInstruction } from "./instruction_decoder";
+
+const UNLOCK_INSTRUCTIONS = ["sendUnlock", "sendBatchUnlock"];
+const ORDER_ID_LOG_PREFIX = "Program log: Order Id: ";
+
+export class OrderUnlockSentParser {
+    private dstProgramID: PublicKey;
+    constructor(dstProgramID: PublicKey) {
+        this.dstProgramID = dstProgramID;
+        if (!this.dstProgramID) {
+            throw new Error("DLN_DST_PROGRAM_ID is not set");
+        }
+    }
+
+    parseOrderUnlockSentEvent(dstEvents: Event[], dstInstructions: DecodedInstruction[], transaction: ParsedTransactionWithMeta): ParsedOrderUnlockSent[] | null {
+        // SentUnlock event has no fields, so order IDs are taken from the unlock instructions.
+        // sendBatchUnlock has no order ID in args, its orders are passed as takeOrderState remaining accounts.
+        const sentUnlockEvents = dstEvents.filter(event => event.name === "SentUnlock");
+        const unlockInstructions = dstInstructions.filter(instruction => UNLOCK_INSTRUCTIONS.includes(instruction.name));
+        if (sentUnlockEvents.length === 0 && unlockInstructions.length === 0) {
+            return null;
+        }
+
+        const orderUnlockSentEvents: ParsedOrderUnlockSent[] = [];
+        let numOfOrders = 0;
+        for (const instruction of unlockInstructions) {
+            // AAK: Every remaining account of sendBatchUnlock is takeOrderState of an order of the batch
+            const numOfBatchOrders = instruction.name === "sendBatchUnlock" ? new Set(instruction.remainingAccounts).size : 1;
+            numOfOrders += numOfBatchOrders;
+            const orderIds = instruction.name === "sendBatchUnlock"
+                ? this._getOrderIdsFromBatchInstruction(instruction, transaction)
+                : [this._getOrderIdFromInstruction(instruction)].filter((orderId): orderId is string => orderId !== null);
+            if (orderIds.length === 0) {
+                console.error(`${transaction.transaction.signatures[0]}: Order ID not found for ${instruction.name}`);
+                continue;
+            }
+            const isBatchIncomplete = orderIds.length !== numOfBatchOrders;
+            if (isBatchIncomplete) {
+                console.error(`${transaction.transaction.signatures[0]}: Order IDs of ${numOfBatchOrders - orderIds.length} of ${numOfBatchOrders} orders of sendBatchUnlock are not found in logs`);
+            }
+            for (const orderId of orderIds) {
+                orderUnlockSentEvents.push({
+                    orderId: orderId,
+                    status: "unlock_sent",
+                    amount: "0",
+                    decimals: 0,
+                    tokenKey: null,
+                    tokenSymbol: null,
+                    actor: instruction.accounts.unlocker,
+                    ...(isBatchIncomplete ? { dataQualityFlags: ["batch_incomplete" as const] } : {}),
+                });
+            }
+        }
+        // AAK: It's not verified if sendBatchUnlock emits SentUnlock once or for every order, so both are accepted.
+        // Orders of the batch are counted by takeOrderState accounts, not by the found order IDs
+        if (sentUnlockEvents.length !== unlockInstructions.length && sentUnlockEvents.length !== numOfOrders) {
+            console.error(`${transaction.transaction.signatures[0]}: Unlock instructions and events length mismatch`);
+            return null;
+        }
+        return orderUnlockSentEvents;
+    }
+
+    _getOrderIdFromInstruction(instruction: DecodedInstruction): string | null {
+        // Order ID is an argument of sendUnlock, takeOrderState is the PDA of this order ID
+        const orderIdRaw = instruction.data?.orderId;
+        if (!orderIdRaw) {
+            return null;
+        }
+        const orderIdBytes = Buffer.from(orderIdRaw as Uint8Array);
+        const takeOrderState = instruction.accounts.takeOrderState;
+        if (takeOrderState && this._getTakeOrderState(orderIdBytes) !== takeOrderState) {
+            return null;
+        }
+        return orderIdBytes.toString("hex");
+    }
+
+    _getOrderIdsFromBatchInstruction(instruction: DecodedInstruction, transaction: ParsedTransactionWithMeta): string[] {
+        // PDA can't be reversed, so the order IDs printed by the program are matched with takeOrderState accounts
+        const orderIdByTakeOrderState = new Map<string, string>();
+        for (const orderId of this._getOrderIdsFromLogs(transaction)) {
+            orderIdByTakeOrderState.set(this._getTakeOrderState(Buffer.from(orderId, "hex")), orderId);
+        }
+        const orderIds: string[] = [];
+        for (const account of instruction.remainingAccounts) {
+            const orderId = orderIdByTakeOrderState.get(account);
+            if (orderId && !orderIds.includes(orderId)) {
+                orderIds.push(orderId);
+            }
+        }
+        return orderIds;
+    }
+
+    _getOrderIdsFromLogs(transaction: ParsedTransactionWithMeta): string[] {
+        // Program prints order ID as a decimal number, e.g. "Program log: Order Id: 5379...2716"
+        const orderIds: string[] = [];
+        for (const log of transaction.meta?.logMessages || []) {
+            if (!log.startsWith(ORDER_ID_LOG_PREFIX)) {
+                continue;
+            }
+            const orderIdDecimal = log.slice(ORDER_ID_LOG_PREFIX.length).trim();
+            if (!/^\d+$/.test(orderIdDecimal)) {
+                continue;
+            }
+            orderIds.push(BigInt(orderIdDecimal).toString(16).padStart(64, "0"));
+        }
+        return orderIds;
+    }
+
+    private _getTakeOrderState(orderIdBytes: Buffer): string {
+        const [takeOrderState] = PublicKey.findProgramAddressSync([Buffer.from("TAKE_ORDER_STATE"), orderIdBytes], this.dstProgramID);
+        return takeOrderState.toString();
+    }
+}
@@ -0,0 +1,52 @@
+import { IdlTypes } from "@coral-xyz/anchor";
+import { ParsedTransactionWithMeta, PublicKey } from "@solana/web3.js";
+import { TokensInfoCache } from "../infrastructure/tokens_info_cache";
+import { TokenInfo } from "../interfaces/infrastructure_interfaces";
+import { DlnDst } from "../idl/dst";
+
+type Order = IdlTypes<DlnDst>["Order"];
+
+// Token info of the mint, if the token is unknown its decimals are taken from the token balances of the transaction.
+// AAK: Decimals are not guessed, without a balance of the mint the token info is not found and the row is skipped
+export async function getMintTokenInfo(mint: string, tokensInfoCache: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<TokenInfo | null> {
+    const tokenInfo = await tokensInfoCache.getTokenInfo(new PublicKey(mint));
+    if (tokenInfo) {
+        return tokenInfo;
+    }
+    return getTokenInfoFromBalances(mint, transaction);
+}
+
+export function getTokenInfoFromBalances(mint: string, transaction: ParsedTransactionWithMeta): TokenInfo | null {
+    const balances = [...(transaction.meta?.postTokenBalances || []), ...(transaction.meta?.preTokenBalances || [])];
+    const balance = balances.find(balance => balance.mint === mint);
+    if (!balance) {
+        return null;
+    }
+    return {
+        key: mint,
+        symbol: mint,
+        precision: balance.uiTokenAmount.decimals
+    };
+}
+
+export async function getTakeTokenInfoFromOrder(order: Order, tokensInfoCache: TokensInfoCache, transaction: ParsedTransactionWithMeta): Promise<TokenInfo | null> {
+    // Take part of the order is on Solana, so the take token is a Solana mint
+    const tokenAddressBytes = order.take?.tokenAddress;
+    if (!tokenAddressBytes || tokenAddressBytes.length !== 32) {
+        return null;
+    }
+    const tokenAddress = new PublicKey(Buffer.from(tokenAddressBytes)).toString();
+    if (tokenAddress === "11111111111111111111111111111111") { // Native SOL is stored as zero address in the order
+        const tokenPublicKey = new PublicKey("So11111111111111111111111111111111111111112");
+        let tokenInfo: TokenInfo | null = await tokensInfoCache.getTokenInfo(tokenPublicKey);
+        if (!tokenInfo) {
+            tokenInfo = {
+                key: tokenPublicKey.toString(),
+                symbol: 'SOL',
+                precision: 9
+            };
+        }
+        return tokenInfo;
+    }
+    return getMintTokenInfo(tokenAddress, tokensInfoCache, transaction);
+}
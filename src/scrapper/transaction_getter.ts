@@ -48,6 +48,57 @@ async function _getTransactions(connection: Connection, signaturesList: Confirme
   return results.filter(result => result !== null) as ParsedTransactionWithMeta[];
 }
 
+function _getTokenMints(transactions: ParsedTransactionWithMeta[]): PublicKey[] {
+  // Mints of all token balances of the page, tokens of the orders are among them
+  const mints = new Set<string>();
+  for (const transaction of transactions) {
+    for (const balance of [...(transaction.meta?.preTokenBalances || []), ...(transaction.meta?.postTokenBalances || [])]) {
+      mints.add(balance.mint);
+    }
+  }
+  return [...mints].map(mint => new PublicKey(mint));
+}
+
+async function* _getSignaturesPages(
+  connection: Connection,
+  programId: PublicKey,
+  pageSize: number,
+  beforeSignature: string | undefined,
+  untilSignature: string | undefined,
+): AsyncGenerator<ConfirmedSignatureInfo[], void, unknown> {
+  // Backfill mode (no untilSignature): walk backwards from beforeSignature page by page.
+  // Forward mode: collect every signature newer than untilSignature first and then return them
+  // from the oldest to the newest, so an interrupted run never leaves a gap behind it.
+  let lastSignature: string | undefined = beforeSignature;
+  if (!untilSignature) {
+    while (true) {
+      const signatures = await connection.getSignaturesForAddress(programId, {
+        before: lastSignature,
+        limit: pageSize,
+      });
+      if (signatures.length === 0) return;
+      lastSignature = signatures[signatures.length - 1].signature;
+      yield signatures;
+    }
+  }
+  const newSignatures: ConfirmedSignatureInfo[] = [];
+  while (true) {
+    const signatures = await connection.getSignaturesForAddress(programId, {
+      before: lastSignature,
+      until: untilSignature,
+      limit: pageSize,
+    });
+    if (signatures.length === 0) break;
+    lastSignature = signatures[signatures.length - 1].signature;
+    newSignatures.push(...signatures);
+  }
+  console.log(`Found ${newSignatures.length} new signatures since ${untilSignature}`);
+  newSignatures.reverse();
+  for (let i = 0; i < newSignatures.length; i += pageSize) {
+    yield newSignatures.slice(i, i + pageSize);
+  }
+}
+
 export async function* fetchOrdersInBatches(
   connection: Connection,
   programId: PublicKey,
@@ -55,21 +106,16 @@ export async function* fetchOrdersInBatches(
   totalRequired: number,
   batchSize: number = 5000,
   beforeSignature: string | undefined = undefined,
+  untilSignature: string | undefined = undefined,
 ): AsyncGenerator<OrderInfoResult[], void, unknown>
 {
-  // TODO: Add download data till last signature from DB
+  // Without untilSignature it digs into the history before beforeSignature,
+  // with untilSignature it downloads everything that appeared after that signature (forward mode).
   let parsedOrders: OrderInfoResult[] = [];
-  let lastSignature: string | undefined = beforeSignature;
   let collectedCount = 0;
+  const pages = _getSignaturesPages(connection, programId, Math.min(SIGNATURES_BATCH_SIZE, batchSize), beforeSignature, untilSignature);
 
-  while (collectedCount < totalRequired) {
-    const signatures = await connection.getSignaturesForAddress(programId, {
-      before: lastSignature,
-      limit: Math.min(SIGNATURES_BATCH_SIZE, batchSize),
-    });
-    
-    if (signatures.length === 0) break;
-    lastSignature = signatures[signatures.length - 1].signature;
+  for await (const signatures of pages) {
     console.log(`Found ${signatures.length} signatures`);
 
     const transactions = await _getTransactions(connection, signatures);
@@ -77,6 +123,12 @@ export async function* fetchOrdersInBatches(
     if (!transactions) {
       continue;
     }
+    try {
+      // New tokens of the page are read with one batch request instead of a request per transaction
+      await tokensInfo.getTokenInfos(_getTokenMints(transactions));
+    } catch (error: any) {
+      console.error(`Tokens of the page are not loaded: ${error.message}`);
+    }
     const alreadyParsedOrdersLen = parsedOrders.length; // AAK: Need to count only new parsed orders
 
     for (const transaction of transactions) { 
@@ -86,6 +138,7 @@ export async function* fetchOrdersInBatches(
           const resultOrder: OrderInfoResult = {
             ...order,
             signature: transaction.transaction.signatures[0],
+            slot: transaction.slot,
           };
           parsedOrders.push(resultOrder);
         }
@@ -96,5 +149,13 @@ export async function* fetchOrdersInBatches(
     console.log(`Collected ${collectedCount} orders from ${totalRequired} required`);
     if (parsedOrders.length >= batchSize || collectedCount >= totalRequired) {
       yield parsedOrders.splice(0, batchSize); 
-    }}
+    }
+    if (collectedCount >= totalRequired) {
+      break;
+    }
+  }
+  if (parsedOrders.length > 0) {
+    // AAK: Signatures are over, but some orders are still waiting for the full batch
+    yield parsedOrders;
+  }
 }
@@ -4,12 +4,19 @@ import { ParsedTransactionWithMeta, PublicKey } from "@solana/web3.js";
 import { IDL as DlnSrcIdl } from "../idl/src";
 import { IDL as DlnDstIdl } from "../idl/dst";
 import { TokensInfoCache } from "../infrastructure/tokens_info_cache";
-import type { TransactionParserResult, ParsedOrderCreated, ParsedOrderFilled } from "../interfaces/scrapper_interfaces";
-import { OrderCreatedParser } from './order_created_parser';
+import type { DataQualityFlag, LostOrderReason, TransactionParserResult, ParsedOrderCreated, ParsedOrderFilled, ParsedOrderClaimed, ParsedOrderCancelled, ParsedOrderUnlockSent, ParsedOrderPatched } from "../interfaces/scrapper_interfaces";
+import { DEFAULT_PERCENT_FEE_BPS, OrderCreatedParser } from './order_created_parser';
 import { OrderFulfilledParser } from './order_fulfilled_parser';
+import { OrderClaimedParser } from './order_claimed_parser';
+import { OrderCancelledParser } from './order_cancelled_parser';
+import { OrderUnlockSentParser } from './order_unlock_sent_parser';
+import { OrderPatchedParser } from './order_patched_parser';
+import { InstructionDecoder } from './instruction_decoder';
 
 const DLN_SRC_PROGRAM_ID: string = process.env.DLN_SRC_PROGRAM_ID || "";
 const DLN_DST_PROGRAM_ID: string = process.env.DLN_DST_PROGRAM_ID || "";
+// Percent fee of DlnSource in bps, created orders of transactions with truncated logs are restored with it
+const DLN_PERCENT_FEE_BPS = Number(process.env.DLN_PERCENT_FEE_BPS || DEFAULT_PERCENT_FEE_BPS);
 
 if (!DLN_SRC_PROGRAM_ID || !DLN_DST_PROGRAM_ID) {
     throw new Error("DLN_SRC_PROGRAM_ID or DLN_DST_PROGRAM_ID is not set");
@@ -18,10 +25,18 @@ if (!DLN_SRC_PROGRAM_ID || !DLN_DST_PROGRAM_ID) {
 // Parsers for Source and Destination programs
 const srcCoder = new BorshCoder(DlnSrcIdl);
 const dstCoder = new BorshCoder(DlnDstIdl);
+const srcProgramID = new PublicKey(DLN_SRC_PROGRAM_ID);
 const dstProgramID = new PublicKey(DLN_DST_PROGRAM_ID);
-const srcEventParser = new EventParser(new PublicKey(DLN_SRC_PROGRAM_ID), srcCoder);
+const srcEventParser = new EventParser(srcProgramID, srcCoder);
 const dstEventParser = new EventParser(dstProgramID, dstCoder);
+const srcInstructionDecoder = new InstructionDecoder(srcProgramID, DlnSrcIdl);
+const dstInstructionDecoder = new InstructionDecoder(dstProgramID, DlnDstIdl);
+// Lost orders have no rows to flag, so they are counted for the whole run
+const lostOrders: Record<LostOrderReason, number> = { nonce_unknown: 0, give_order_state_mismatch: 0 };
 
+export function getLostOrders(): Record<LostOrderReason, number> {
+    return { ...lostOrders };
+}
 
 export async function parseDataFromTransaction(transaction: ParsedTransactionWithMeta | null, tokensInfo: TokensInfoCache): Promise<TransactionParserResult[] | undefined> {
     if (!transaction) {
@@ -35,27 +50,65 @@ export async function parseDataFromTransaction(transaction: ParsedTransactionWit
     if (transactionTimestamp === undefined || transactionTimestamp === null) {
         return undefined;
     }
-    const orderCreatedParser = new OrderCreatedParser();
-    const orderCreatedEvent = await orderCreatedParser.parseOrderCreatedEvent(srcEvents, tokensInfo);
+    // AAK: One transaction can contain events of different types (e.g. a solver claims unlock and creates a new order),
+    // so results of all parsers are collected
+    const orderEvents: (ParsedOrderCreated | ParsedOrderFilled | ParsedOrderClaimed | ParsedOrderCancelled | ParsedOrderUnlockSent | ParsedOrderPatched)[] = [];
+    const orderCreatedParser = new OrderCreatedParser(srcProgramID, DLN_PERCENT_FEE_BPS);
+    const orderCreatedEvent = await orderCreatedParser.parseOrderCreatedEvent(srcEvents, tokensInfo, transaction);
     if (orderCreatedEvent !== null) {
-        const transactionParserResult: TransactionParserResult[] = [];
-        for (const order of orderCreatedEvent) {
-            transactionParserResult.push(_collectTransactionParserResult(order, transactionTimestamp));
-        }
-        return transactionParserResult;
+        orderEvents.push(...orderCreatedEvent);
+    }
+    const srcInstructions = srcInstructionDecoder.decodeTransaction(transaction);
+    const orderClaimedParser = new OrderClaimedParser(srcProgramID);
+    const orderClaimedEvent = await orderClaimedParser.parseOrderClaimedEvent(srcEvents, srcInstructions, tokensInfo, transaction);
+    if (orderClaimedEvent !== null) {
+        orderEvents.push(...orderClaimedEvent);
     }
+    const dstInstructions = dstInstructionDecoder.decodeTransaction(transaction);
     const orderFulfilledParser = new OrderFulfilledParser(dstProgramID);
-    const orderFilledEvent = await orderFulfilledParser.parseOrderFilledEvent(dstEvents, tokensInfo, transaction);
+    const orderFilledEvent = await orderFulfilledParser.parseOrderFilledEvent(dstEvents, dstInstructions, tokensInfo, transaction);
     if (orderFilledEvent !== null) {
-        const transactionParserResult: TransactionParserResult[] = [];
-        for (const order of orderFilledEvent) {
-            transactionParserResult.push(_collectTransactionParserResult(order, transactionTimestamp));
+        orderEvents.push(...orderFilledEvent);
+    }
+    // AAK: Solana cuts the tail of the logs, so only the events of the last instructions can be missed
+    const isLogTruncated = logMessages.includes("Log truncated");
+    if (isLogTruncated) {
+        const truncatedCreateEvent = await orderCreatedParser.parseCreateInstructionsWithoutEvents(srcEvents, srcInstructions, tokensInfo, transaction);
+        if (truncatedCreateEvent !== null) {
+            orderEvents.push(...truncatedCreateEvent);
+        }
+        for (const reason of orderCreatedParser.lostOrders) {
+            lostOrders[reason]++;
         }
-        return transactionParserResult;
+        const truncatedFillEvent = await orderFulfilledParser.parseFulfillInstructionsWithoutEvents(dstEvents, dstInstructions, tokensInfo, transaction);
+        if (truncatedFillEvent !== null) {
+            orderEvents.push(...truncatedFillEvent);
+        }
+    }
+    const orderCancelledParser = new OrderCancelledParser(dstProgramID);
+    const orderCancelledEvent = await orderCancelledParser.parseOrderCancelledEvent(dstEvents, dstInstructions, tokensInfo, transaction);
+    if (orderCancelledEvent !== null) {
+        orderEvents.push(...orderCancelledEvent);
+    }
+    const orderUnlockSentParser = new OrderUnlockSentParser(dstProgramID);
+    const orderUnlockSentEvent = orderUnlockSentParser.parseOrderUnlockSentEvent(dstEvents, dstInstructions, transaction);
+    if (orderUnlockSentEvent !== null) {
+        orderEvents.push(...orderUnlockSentEvent);
+    }
+    const orderPatchedParser = new OrderPatchedParser(srcProgramID);
+    const givePatchEvent = await orderPatchedParser.parseGivePatchEvent(srcEvents, srcInstructions, tokensInfo, transaction);
+    if (givePatchEvent !== null) {
+        orderEvents.push(...givePatchEvent);
+    }
+    const takePatchEvent = await orderPatchedParser.parseTakePatchEvent(dstEvents, dstInstructions, tokensInfo, transaction);
+    if (takePatchEvent !== null) {
+        orderEvents.push(...takePatchEvent);
     }
+    return orderEvents.map(order => _collectTransactionParserResult(order, transactionTimestamp, isLogTruncated));
 }
 
-function _collectTransactionParserResult(order: ParsedOrderCreated | ParsedOrderFilled, transactionTimestamp: number): TransactionParserResult {
+function _collectTransactionParserResult(order: ParsedOrderCreated | ParsedOrderFilled | ParsedOrderClaimed | ParsedOrderCancelled | ParsedOrderUnlockSent | ParsedOrderPatched, transactionTimestamp: number, isLogTruncated: boolean): TransactionParserResult {
+    const dataQualityFlags: DataQualityFlag[] = [...(isLogTruncated ? ["log_truncated" as const] : []), ...(order.dataQualityFlags ?? [])];
     return {
         orderId: order.orderId,
         status: order.status,
@@ -63,7 +116,12 @@ function _collectTransactionParserResult(order: ParsedOrderCreated | ParsedOrder
         tokenKey: order.tokenKey,
         tokenSymbol: order.tokenSymbol,
         amount: order.amount,
-        percentFee: 'percentFee' in order ? order.percentFee : 0,
-        fixedFee: 'fixedFee' in order ? order.fixedFee : 0,
+        decimals: order.decimals,
+        percentFee: 'percentFee' in order ? order.percentFee : "0",
+        fixedFee: 'fixedFee' in order ? order.fixedFee : "0",
+        actor: order.actor,
+        details: 'details' in order ? order.details : undefined,
+        extractionMethod: 'extractionMethod' in order ? order.extractionMethod : undefined,
+        dataQualityFlags: dataQualityFlags.length > 0 ? dataQualityFlags : undefined,
     }
 }
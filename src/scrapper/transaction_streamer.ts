@@ -0,0 +1,316 @@
+import 'dotenv/config';
+import pLimit from 'p-limit';
+import { Connection, Logs, ParsedTransactionWithMeta, PublicKey } from "@solana/web3.js";
+import { parseDataFromTransaction } from "./transaction_parser";
+import { fetchOrdersInBatches } from "./transaction_getter";
+import type { OrderInfoResult } from "../interfaces/scrapper_interfaces";
+import { TokensInfoCache } from "../infrastructure/tokens_info_cache";
+import { DBController } from "../infrastructure/db_controller";
+
+const MAX_CONCURRENT_REQUESTS = 5; // The same RPC limits as for the batch download
+const MICRO_BATCH_SIZE = 20;
+const FLUSH_INTERVAL_MS = 5000;
+const IDLE_TIMEOUT_MS = 120000; // DLN programs are busy, so silence this long means the subscription is dead
+const GAP_BATCH_SIZE = 100;
+const GET_TRANSACTION_RETRIES = 3;
+
+export interface OrdersStreamerOptions {
+    microBatchSize?: number;
+    flushIntervalMs?: number;
+    idleTimeoutMs?: number;
+}
+
+interface ProgramStream {
+    programId: PublicKey;
+    subscriptionId: number | null;
+    lastSeenSignature: string | undefined; // The newest signature received from the subscription
+    gapUntilSignature: string | undefined; // If set, the gap till this signature must be backfilled
+    runningGaps: number;
+    heldCursorOrders: OrderInfoResult[]; // The oldest and the newest orders saved while the cursor was held
+    failedSignatures: Set<string>; // Transactions that weren't fetched or parsed, they are retried on the flush timer
+    isRetrying: boolean;
+    lastNotificationAt: number;
+    orders: OrderInfoResult[];
+}
+
+export class OrdersStreamer {
+    private connection: Connection;
+    private tokensInfo: TokensInfoCache;
+    private dbController: DBController;
+    private microBatchSize: number;
+    private flushIntervalMs: number;
+    private idleTimeoutMs: number;
+    private streams: Map<string, ProgramStream> = new Map();
+    private limiter = pLimit(MAX_CONCURRENT_REQUESTS);
+    private pendingTasks: Set<Promise<void>> = new Set();
+    private flushing: Promise<void> = Promise.resolve();
+    private flushTimer: ReturnType<typeof setInterval> | null = null;
+    private watchdogTimer: ReturnType<typeof setInterval> | null = null;
+
+    constructor(connection: Connection, tokensInfo: TokensInfoCache, dbController: DBController, options: OrdersStreamerOptions = {}) {
+        if (!connection) {
+            throw new Error("Connection is required");
+        }
+        this.connection = connection;
+        this.tokensInfo = tokensInfo;
+        this.dbController = dbController;
+        this.microBatchSize = options.microBatchSize ?? MICRO_BATCH_SIZE;
+        this.flushIntervalMs = options.flushIntervalMs ?? FLUSH_INTERVAL_MS;
+        this.idleTimeoutMs = options.idleTimeoutMs ?? IDLE_TIMEOUT_MS;
+    }
+
+    start(programIds: PublicKey[], lastSignatures: Record<string, string | undefined> = {}): void {
+        // lastSignatures - newest signatures saved by the previous run, the gap after them is backfilled
+        // as soon as the first notification for the program arrives
+        for (const programId of programIds) {
+            const stream: ProgramStream = {
+                programId: programId,
+                subscriptionId: null,
+                lastSeenSignature: undefined,
+                gapUntilSignature: lastSignatures[programId.toString()],
+                runningGaps: 0,
+                heldCursorOrders: [],
+                failedSignatures: new Set(),
+                isRetrying: false,
+                lastNotificationAt: Date.now(),
+                orders: [],
+            };
+            this.streams.set(programId.toString(), stream);
+            this._subscribe(stream);
+        }
+        this.flushTimer = setInterval(() => {
+            for (const stream of this.streams.values()) {
+                this._trackTask(this._retryFailedSignatures(stream));
+                this._flush(stream);
+            }
+        }, this.flushIntervalMs);
+        this.watchdogTimer = setInterval(() => this._checkSubscriptions(), Math.max(this.idleTimeoutMs / 2, 1000));
+        console.log(`Streaming started for ${programIds.length} programs`);
+    }
+
+    async stop(): Promise<void> {
+        if (this.flushTimer) {
+            clearInterval(this.flushTimer);
+            this.flushTimer = null;
+        }
+        if (this.watchdogTimer) {
+            clearInterval(this.watchdogTimer);
+            this.watchdogTimer = null;
+        }
+        for (const stream of this.streams.values()) {
+            await this._unsubscribe(stream);
+        }
+        await this.waitForPendingTasks();
+        for (const stream of this.streams.values()) {
+            await this._flush(stream);
+            if (stream.failedSignatures.size > 0) {
+                console.error(`${stream.failedSignatures.size} transactions of ${stream.programId.toString()} are not saved, the next run fetches them from the ingestion cursor`);
+            }
+        }
+        console.log('Streaming stopped');
+    }
+
+    async waitForPendingTasks(): Promise<void> {
+        while (this.pendingTasks.size > 0) {
+            await Promise.all(Array.from(this.pendingTasks));
+        }
+    }
+
+    async flush(): Promise<void> {
+        for (const stream of this.streams.values()) {
+            await this._flush(stream);
+        }
+    }
+
+    async retryFailedSignatures(): Promise<void> {
+        for (const stream of this.streams.values()) {
+            await this._retryFailedSignatures(stream);
+        }
+    }
+
+    async reconnect(programId: PublicKey): Promise<void> {
+        const stream = this.streams.get(programId.toString());
+        if (!stream) {
+            return;
+        }
+        console.warn(`Resubscribing to ${programId.toString()} logs`);
+        await this._unsubscribe(stream);
+        // AAK: Everything after the last seen signature could be lost while the subscription was dead
+        stream.gapUntilSignature = stream.lastSeenSignature ?? stream.gapUntilSignature;
+        stream.lastNotificationAt = Date.now();
+        this._subscribe(stream);
+    }
+
+    _onLogs(stream: ProgramStream, logs: Logs): void {
+        stream.lastNotificationAt = Date.now();
+        if (stream.gapUntilSignature) {
+            const untilSignature = stream.gapUntilSignature;
+            stream.gapUntilSignature = undefined;
+            this._trackTask(this._backfillGap(stream, logs.signature, untilSignature));
+        }
+        stream.lastSeenSignature = logs.signature;
+        if (logs.err) {
+            return;
+        }
+        this._trackTask(this.limiter(() => this._processSignature(stream, logs.signature)));
+    }
+
+    private _subscribe(stream: ProgramStream): void {
+        stream.subscriptionId = this.connection.onLogs(stream.programId, (logs: Logs) => this._onLogs(stream, logs), 'confirmed');
+    }
+
+    private async _unsubscribe(stream: ProgramStream): Promise<void> {
+        if (stream.subscriptionId === null) {
+            return;
+        }
+        try {
+            await this.connection.removeOnLogsListener(stream.subscriptionId);
+        } catch (e: any) {
+            console.warn(`Failed to remove logs listener for ${stream.programId.toString()}: ${e.message}`);
+        }
+        stream.subscriptionId = null;
+    }
+
+    private _checkSubscriptions(): void {
+        const now = Date.now();
+        for (const stream of this.streams.values()) {
+            if (now - stream.lastNotificationAt > this.idleTimeoutMs) {
+                this._trackTask(this.reconnect(stream.programId));
+            }
+        }
+    }
+
+    private _trackTask(task: Promise<void>): void {
+        const trackedTask = task.catch((e: any) => {
+            console.error('Streaming task failed:', e);
+        }).finally(() => {
+            this.pendingTasks.delete(trackedTask);
+        });
+        this.pendingTasks.add(trackedTask);
+    }
+
+    private async _processSignature(stream: ProgramStream, signature: string): Promise<void> {
+        // AAK: A failed transaction holds the ingestion cursor until it's saved, otherwise the next notifications
+        // would move the cursor over it and the next run would never fetch it
+        let transaction: ParsedTransactionWithMeta | null;
+        let parsedData: Awaited<ReturnType<typeof parseDataFromTransaction>>;
+        try {
+            transaction = await this._getTransaction(signature);
+            if (!transaction) {
+                console.error(`${signature}: Transaction is not available, will retry`);
+                stream.failedSignatures.add(signature);
+                return;
+            }
+            parsedData = await parseDataFromTransaction(transaction, this.tokensInfo);
+        } catch (e: any) {
+            console.error(`${signature}: Failed to parse streamed transaction, will retry:`, e);
+            stream.failedSignatures.add(signature);
+            return;
+        }
+        // Orders are added before the signature is removed, so the cursor is held until they are saved
+        for (const order of parsedData ?? []) {
+            stream.orders.push({
+                ...order,
+                signature: signature,
+                slot: transaction.slot,
+            });
+        }
+        stream.failedSignatures.delete(signature);
+        if (stream.orders.length >= this.microBatchSize) {
+            await this._flush(stream);
+        }
+    }
+
+    private async _getTransaction(signature: string): Promise<ParsedTransactionWithMeta | null> {
+        // AAK: The notification can come a bit earlier than RPC is ready to return the transaction
+        for (let attempt = 1; attempt <= GET_TRANSACTION_RETRIES; attempt++) {
+            try {
+                const transaction = await this.connection.getParsedTransaction(signature, { maxSupportedTransactionVersion: 0, commitment: "confirmed" });
+                if (transaction) {
+                    return transaction;
+                }
+            } catch (e: any) {
+                console.warn(`Failed to get transaction ${signature}: ${e.message}`);
+            }
+            await new Promise(res => setTimeout(res, 1000 * attempt));
+        }
+        return null;
+    }
+
+    private async _backfillGap(stream: ProgramStream, beforeSignature: string, untilSignature: string): Promise<void> {
+        console.log(`Backfilling ${stream.programId.toString()} gap between ${untilSignature} and ${beforeSignature}`);
+        stream.runningGaps++;
+        try {
+            const generator = fetchOrdersInBatches(this.connection, stream.programId, this.tokensInfo, Number.POSITIVE_INFINITY, GAP_BATCH_SIZE, beforeSignature, untilSignature);
+            for await (const batch of generator) {
+                stream.orders.push(...batch);
+                await this._flush(stream);
+            }
+        } catch (e: any) {
+            // AAK: The gap is fetched again from the next notification, the range till the old signature covers it
+            stream.gapUntilSignature = untilSignature;
+            throw e;
+        } finally {
+            stream.runningGaps--;
+        }
+        await this._flush(stream);
+    }
+
+    private async _retryFailedSignatures(stream: ProgramStream): Promise<void> {
+        if (stream.isRetrying || stream.failedSignatures.size === 0) {
+            return;
+        }
+        stream.isRetrying = true;
+        try {
+            const signatures = Array.from(stream.failedSignatures);
+            await Promise.all(signatures.map(signature => this.limiter(() => this._processSignature(stream, signature))));
+        } finally {
+            stream.isRetrying = false;
+        }
+    }
+
+    private _isCursorHeld(stream: ProgramStream): boolean {
+        // While a gap is not backfilled or a transaction is not saved, the ingestion cursor stays before it.
+        // Otherwise the next run would start after the streamed orders and they would be lost if this run stops earlier
+        return stream.runningGaps > 0 || stream.gapUntilSignature !== undefined || stream.failedSignatures.size > 0;
+    }
+
+    private _holdCursor(stream: ProgramStream, batch: OrderInfoResult[]): void {
+        // Only the oldest and the newest orders move the cursor, see DBController._updateIngestionCursor
+        const orders = [...stream.heldCursorOrders, ...batch];
+        const oldest = orders.reduce((acc, e) => e.slot <= acc.slot ? e : acc);
+        const newest = orders.reduce((acc, e) => e.slot >= acc.slot ? e : acc);
+        stream.heldCursorOrders = [oldest, newest];
+    }
+
+    private _flush(stream: ProgramStream): Promise<void> {
+        // Flushes are chained, so batches are saved one by one
+        this.flushing = this.flushing.then(async () => {
+            const programId = stream.programId.toString();
+            const isCursorHeld = this._isCursorHeld(stream);
+            if (stream.orders.length > 0) {
+                const batch = stream.orders.splice(0, stream.orders.length);
+                try {
+                    await this.dbController.saveBatchToDB(batch, isCursorHeld ? undefined : programId);
+                    await this.dbController.convertMainStagingTableToSilver();
+                } catch (e: any) {
+                    console.error(`Failed to save streamed batch for ${programId}, will retry:`, e);
+                    stream.orders.unshift(...batch);
+                    return;
+                }
+                if (isCursorHeld) {
+                    this._holdCursor(stream, batch);
+                }
+            }
+            if (!isCursorHeld && stream.heldCursorOrders.length > 0) {
+                try {
+                    await this.dbController.saveIngestionCursor(programId, stream.heldCursorOrders);
+                    stream.heldCursorOrders = [];
+                } catch (e: any) {
+                    console.error(`Failed to save ingestion cursor for ${programId}, will retry:`, e);
+                }
+            }
+        });
+        return this.flushing;
+    }
+}
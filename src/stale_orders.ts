@@ -0,0 +1,31 @@
+import 'dotenv/config';
+import { DBController } from "./infrastructure/db_controller";
+import { StaleOrdersMonitor } from "./infrastructure/stale_orders_monitor";
+
+// Usage: npm run stale-orders
+// STALE_ORDER_AGE_MINUTES - orders created earlier and still not filled or cancelled are stale (60 by default)
+// STALE_ORDERS_WEBHOOK_URL - optional URL for the JSON alert
+const STALE_ORDER_AGE_MINUTES = Number(process.env.STALE_ORDER_AGE_MINUTES || 60);
+const STALE_ORDERS_WEBHOOK_URL = process.env.STALE_ORDERS_WEBHOOK_URL;
+
+async function main() {
+    const dbController = new DBController();
+    try {
+        const monitor = new StaleOrdersMonitor(dbController, {
+            maxAgeMinutes: STALE_ORDER_AGE_MINUTES,
+            webhookUrl: STALE_ORDERS_WEBHOOK_URL,
+        });
+        const groups = await monitor.check();
+        console.log(`Orders older than ${STALE_ORDER_AGE_MINUTES} minutes without fill or cancel`);
+        console.table(groups.map(group => ({
+            "Token": group.symbol,
+            "Take chain": group.takeChain,
+            "Orders": group.numOfOrders,
+            "Amount": group.totalAmount,
+            "Oldest": group.oldestCreatedAt.toISOString(),
+        })));
+    } finally {
+        await dbController.close();
+    }
+}
+main();
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { getChainName, SOLANA_CHAIN_ID } from '../src/infrastructure/chains_registry';
+
+describe('chains_registry', () => {
+    describe('getChainName', () => {
+        it('should return name of known chain', () => {
+            expect(getChainName('42161')).toBe('Arbitrum');
+            expect(getChainName(SOLANA_CHAIN_ID)).toBe('Solana');
+        });
+
+        it('should return chain ID for unknown chain', () => {
+            expect(getChainName('123456')).toBe('Chain 123456');
+        });
+    });
+});
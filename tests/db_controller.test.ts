@@ -44,6 +44,268 @@ describe('DBController', () => {
         });
     });
 
+    describe('createTablesIfNotExists', () => {
+        it('should migrate status columns of existing tables', async () => {
+            mockPoolInstance.query.mockImplementation(async (query: string) => {
+                if (String(query).includes("column_name = 'status' AND character_maximum_length < 20")) {
+                    return { rows: [{ '?column?': 1 }] };
+                }
+                return { rows: [] };
+            });
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.createTablesIfNotExists();
+
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('ALTER TABLE staging_orders ALTER COLUMN status TYPE VARCHAR(20)')
+            );
+            const migrateCall = mockPoolInstance.query.mock.calls.find(call => String(call[0]).includes('ALTER TABLE silver_order_status ALTER COLUMN status TYPE VARCHAR(20)'));
+            expect(migrateCall![0]).toContain('DROP VIEW IF EXISTS gold_orders_view, gold_corridors_view, gold_fill_latency_view, gold_order_latency_view');
+            expect(mockClient.query).toHaveBeenCalledWith(
+                expect.stringContaining('CREATE OR REPLACE VIEW gold_orders_view')
+            );
+        });
+
+        it('should not add amount constraint again if it is already changed', async () => {
+            mockPoolInstance.query.mockImplementation(async (query: string) => {
+                if (String(query).includes("constraint_name IN ('amount_less_or_equal_to_zero', 'amount_less_then_zero')")) {
+                    return { rows: [{ constraint_name: 'amount_less_then_zero' }] };
+                }
+                return { rows: [] };
+            });
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.createTablesIfNotExists();
+
+            const queries = mockPoolInstance.query.mock.calls.map(call => String(call[0]));
+            expect(queries.some(query => query.includes('ADD CONSTRAINT amount_less_then_zero'))).toBe(false);
+        });
+
+        it('should add SOL to tokens for prices of fixed fees', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.createTablesIfNotExists();
+
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining("INSERT INTO silver_tokens (token_key, token_symbol, display_label) VALUES ($1, 'SOL', 'SOL')"),
+                ['So11111111111111111111111111111111111111112']
+            );
+        });
+
+        it('should not change columns used by views when migrating again after views are made', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.createTablesIfNotExists();
+            await dbController.madeViews();
+            mockPoolInstance.query.mockClear();
+            mockClient.query.mockClear();
+            await dbController.createTablesIfNotExists();
+
+            const queries = mockPoolInstance.query.mock.calls.map(call => String(call[0]));
+            expect(queries.some(query => query.includes('ALTER TABLE silver_order_status ALTER COLUMN status'))).toBe(false);
+            expect(queries.some(query => query.includes('DROP VIEW'))).toBe(false);
+            expect(mockClient.query).not.toHaveBeenCalled();
+        });
+
+        it('should migrate staging orders for cancellations without token', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+
+            await dbController.createTablesIfNotExists();
+
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('ALTER TABLE staging_orders ADD COLUMN IF NOT EXISTS actor')
+            );
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('ALTER TABLE staging_orders ADD CONSTRAINT amount_less_then_zero CHECK (amount >= 0)')
+            );
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('ALTER TABLE silver_orders ALTER COLUMN token_id DROP NOT NULL')
+            );
+        });
+
+        it('should migrate staging orders to raw amounts with decimals', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+
+            await dbController.createTablesIfNotExists();
+
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('ALTER TABLE staging_orders ADD COLUMN IF NOT EXISTS decimals INTEGER')
+            );
+            expect(mockPoolInstance.query).not.toHaveBeenCalledWith(
+                expect.stringContaining('DROP VIEW IF EXISTS gold_orders_view')
+            );
+        });
+
+        it('should remove scale limit of silver amounts and recreate views', async () => {
+            mockPoolInstance.query.mockImplementation(async (query: string) => {
+                if (String(query).includes('FROM information_schema.columns')) {
+                    return { rows: [{ '?column?': 1 }] };
+                }
+                return { rows: [] };
+            });
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.createTablesIfNotExists();
+
+            const migrateCall = mockPoolInstance.query.mock.calls.find(call => String(call[0]).includes('ALTER TABLE silver_orders ALTER COLUMN amount TYPE NUMERIC'));
+            expect(migrateCall![0]).toContain('DROP VIEW IF EXISTS gold_orders_view');
+            expect(migrateCall![0]).toContain('ALTER TABLE order_amount_patches ALTER COLUMN final_amount TYPE NUMERIC');
+            expect(mockClient.query).toHaveBeenCalledWith(
+                expect.stringContaining('CREATE OR REPLACE VIEW gold_orders_view')
+            );
+        });
+
+        it('should add extraction method columns', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+
+            await dbController.createTablesIfNotExists();
+
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('ALTER TABLE silver_orders ADD COLUMN IF NOT EXISTS extraction_method VARCHAR(20)')
+            );
+        });
+
+        it('should make staging orders unique by signature, order and status', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+
+            await dbController.createTablesIfNotExists();
+
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('ON staging_orders (signature, order_id, status)')
+            );
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('ALTER TABLE staging_orders DROP CONSTRAINT IF EXISTS staging_orders_signature_key')
+            );
+        });
+
+        it('should replace unique signature of silver orders and return skipped rows to staging', async () => {
+            mockPoolInstance.query.mockImplementation(async (query: string) => {
+                if (String(query).includes('FROM information_schema.table_constraints')) {
+                    return { rows: [{ '?column?': 1 }] };
+                }
+                return { rows: [] };
+            });
+
+            await dbController.createTablesIfNotExists();
+
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('ON silver_orders (signature, order_id, status_id)')
+            );
+            const migrateCall = mockPoolInstance.query.mock.calls.find(call => String(call[0]).includes('DROP CONSTRAINT silver_orders_signature_key'));
+            expect(migrateCall![0]).toContain('UPDATE staging_orders sto SET is_processed = FALSE');
+        });
+
+        it('should not return rows to staging if silver key is already migrated', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+
+            await dbController.createTablesIfNotExists();
+
+            expect(mockPoolInstance.query).not.toHaveBeenCalledWith(
+                expect.stringContaining('DROP CONSTRAINT silver_orders_signature_key')
+            );
+        });
+
+        it('should add data quality flags columns', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+
+            await dbController.createTablesIfNotExists();
+
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('ALTER TABLE silver_orders ADD COLUMN IF NOT EXISTS data_quality_flags JSONB')
+            );
+        });
+
+        it('should make token symbols not unique and label tokens', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+
+            await dbController.createTablesIfNotExists();
+
+            const tablesQuery = String(mockPoolInstance.query.mock.calls.find(call => String(call[0]).includes('CREATE TABLE IF NOT EXISTS silver_tokens'))![0]);
+            expect(tablesQuery).toContain('token_symbol VARCHAR(255) NOT NULL,');
+            const queries = mockPoolInstance.query.mock.calls.map(call => String(call[0]));
+            const migrateCallIndex = queries.findIndex(query => query.includes('DROP CONSTRAINT IF EXISTS silver_tokens_token_symbol_key'));
+            const labelsCallIndex = queries.findIndex(query => query.includes('UPDATE silver_tokens tk SET display_label'));
+            const notNullCallIndex = queries.findIndex(query => query.includes('ALTER COLUMN display_label SET NOT NULL'));
+            expect(queries[migrateCallIndex]).toContain('ADD COLUMN IF NOT EXISTS display_label VARCHAR(255)');
+            expect(migrateCallIndex).toBeLessThan(labelsCallIndex);
+            expect(labelsCallIndex).toBeLessThan(notNullCallIndex);
+        });
+
+        it('should add token labels before views are recreated', async () => {
+            mockPoolInstance.query.mockImplementation(async (query: string) => {
+                if (String(query).includes('FROM information_schema.columns')) {
+                    return { rows: [{ '?column?': 1 }] };
+                }
+                return { rows: [] };
+            });
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.createTablesIfNotExists();
+
+            const labelsCallIndex = mockPoolInstance.query.mock.calls.findIndex(call => String(call[0]).includes('ALTER COLUMN display_label SET NOT NULL'));
+            const viewsCallIndex = mockClient.query.mock.calls.findIndex(call => String(call[0]).includes('CREATE OR REPLACE VIEW gold_orders_view'));
+            expect(mockPoolInstance.query.mock.invocationCallOrder[labelsCallIndex])
+                .toBeLessThan(mockClient.query.mock.invocationCallOrder[viewsCallIndex]);
+        });
+
+        it('should fill lifecycle of all orders if it is empty', async () => {
+            mockPoolInstance.query.mockImplementation(async (query: string) => {
+                if (String(query).includes('FROM silver_order_lifecycle')) {
+                    return { rows: [{ is_filled: false }] };
+                }
+                return { rows: [] };
+            });
+
+            await dbController.createTablesIfNotExists();
+
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('INSERT INTO silver_order_lifecycle'),
+                [null]
+            );
+            const queries = mockPoolInstance.query.mock.calls.map(call => String(call[0]));
+            expect(queries.findIndex(query => query.includes('ALTER TABLE silver_orders ADD COLUMN IF NOT EXISTS actor')))
+                .toBeLessThan(queries.findIndex(query => query.includes('INSERT INTO silver_order_lifecycle')));
+        });
+
+        it('should not rebuild filled lifecycle', async () => {
+            mockPoolInstance.query.mockImplementation(async (query: string) => {
+                if (String(query).includes('FROM silver_order_lifecycle')) {
+                    return { rows: [{ is_filled: true }] };
+                }
+                return { rows: [] };
+            });
+
+            await dbController.createTablesIfNotExists();
+
+            expect(mockPoolInstance.query).not.toHaveBeenCalledWith(
+                expect.stringContaining('INSERT INTO silver_order_lifecycle'),
+                expect.any(Array)
+            );
+        });
+
+        it('should fill chains registry', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+
+            await dbController.createTablesIfNotExists();
+
+            const seedCall = mockPoolInstance.query.mock.calls.find(call => String(call[0]).includes('INSERT INTO silver_chains'));
+            expect(seedCall![1][0]).toContain('7565164');
+            expect(seedCall![1][1]).toContain('Solana');
+        });
+
+        it('should create order amount patches table', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+
+            await dbController.createTablesIfNotExists();
+
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('CREATE TABLE IF NOT EXISTS order_amount_patches')
+            );
+        });
+    });
+
     describe('clearStagingTables', () => {
         it('should clear staging tables successfully', async () => {
             mockClient.query.mockResolvedValue({ rows: [] });
@@ -78,25 +340,29 @@ describe('DBController', () => {
         const mockBatch: OrderInfoResult[] = [
             {
                 signature: 'test_signature_1',
+                slot: 390000001,
                 orderId: 'order_1',
                 status: 'created',
                 timestamp: 1000000,
                 tokenKey: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
                 tokenSymbol: 'USDC',
-                amount: 100.5,
-                percentFee: 0.01,
-                fixedFee: 0.5
+                amount: '100500000',
+                decimals: 6,
+                percentFee: '10000',
+                fixedFee: '500000'
             },
             {
                 signature: 'test_signature_2',
+                slot: 390000000,
                 orderId: 'order_2',
                 status: 'filled',
                 timestamp: 1000001,
                 tokenKey: 'So11111111111111111111111111111111111111112',
                 tokenSymbol: 'SOL',
-                amount: 50.25,
-                percentFee: 0.02,
-                fixedFee: 0.1
+                amount: '50250000000',
+                decimals: 9,
+                percentFee: '0',
+                fixedFee: '0'
             }
         ];
 
@@ -115,23 +381,136 @@ describe('DBController', () => {
                     expect.arrayContaining(['CREATED', 'FILLED']),
                     expect.arrayContaining(['EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', 'So11111111111111111111111111111111111111112']),
                     expect.arrayContaining(['USDC', 'SOL']),
-                    expect.arrayContaining([100.5, 50.25]),
-                    expect.arrayContaining([0.01, 0.02]),
-                    expect.arrayContaining([0.5, 0.1]),
+                    expect.arrayContaining(['100500000', '50250000000']),
+                    expect.arrayContaining(['10000', '0']),
+                    expect.arrayContaining(['500000', '0']),
                     expect.any(Array)
                 ])
             );
+            const insertCall = mockClient.query.mock.calls.find(call => String(call[0]).includes('INSERT INTO staging_orders'));
+            expect(insertCall![1][11]).toEqual([6, 9]);
             expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
             expect(mockClient.release).toHaveBeenCalled();
         });
 
-        it('should throw error if amount exceeds MAX_DECIMAL_VALUE', async () => {
+        it('should save cancellation without token with actor', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+            const cancelBatch: OrderInfoResult[] = [{
+                ...mockBatch[0],
+                status: 'cancel_sent',
+                tokenKey: null,
+                tokenSymbol: null,
+                amount: '0',
+                decimals: 0,
+                actor: 'canceler_1'
+            }];
+
+            await dbController.saveBatchToDB(cancelBatch);
+
+            const insertCall = mockClient.query.mock.calls.find(call => String(call[0]).includes('INSERT INTO staging_orders'));
+            expect(insertCall![0]).toContain('actor');
+            const params = insertCall![1];
+            expect(params[2]).toEqual(['CANCEL_SENT']);
+            expect(params[3]).toEqual([null]);
+            expect(params[4]).toEqual([null]);
+            expect(params[9]).toEqual(['canceler_1']);
+        });
+
+        it('should save order details as JSON', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+            const details = {
+                makerOrderNonce: '1',
+                makerSrc: { hex: '01', base58: null },
+                giveChainId: '7565164',
+                giveTokenAddress: { hex: '02', base58: null },
+                giveAmount: '100',
+                takeChainId: '8453',
+                takeTokenAddress: { hex: '03', base58: null },
+                takeAmount: '200',
+                receiverDst: { hex: '04', base58: null },
+                givePatchAuthoritySrc: { hex: '05', base58: null },
+                orderAuthorityAddressDst: { hex: '06', base58: null },
+                allowedTakerDst: null,
+                allowedCancelBeneficiarySrc: null,
+                externalCallShortcut: null
+            };
+
+            await dbController.saveBatchToDB([{ ...mockBatch[0], details: details }, mockBatch[1]]);
+
+            const insertCall = mockClient.query.mock.calls.find(call => String(call[0]).includes('INSERT INTO staging_orders'));
+            expect(insertCall![1][10]).toEqual([JSON.stringify(details), null]);
+        });
+
+        it('should save extraction method of filled amounts', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.saveBatchToDB([mockBatch[0], { ...mockBatch[1], extractionMethod: 'balance_delta' }]);
+
+            const insertCall = mockClient.query.mock.calls.find(call => String(call[0]).includes('INSERT INTO staging_orders'));
+            expect(insertCall![0]).toContain('extraction_method');
+            expect(insertCall![1][12]).toEqual([null, 'balance_delta']);
+        });
+
+        it('should keep several orders of one transaction', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.saveBatchToDB([mockBatch[0], { ...mockBatch[0], orderId: 'order_3' }]);
+
+            const insertCall = mockClient.query.mock.calls.find(call => String(call[0]).includes('INSERT INTO staging_orders'));
+            expect(insertCall![0]).toContain('ON CONFLICT (signature, order_id, status) DO NOTHING');
+            expect(insertCall![1][0]).toEqual([mockBatch[0].signature, mockBatch[0].signature]);
+        });
+
+        it('should save data quality flags as JSON', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.saveBatchToDB([mockBatch[0], { ...mockBatch[1], dataQualityFlags: ['log_truncated', 'instruction_fallback'] }]);
+
+            const insertCall = mockClient.query.mock.calls.find(call => String(call[0]).includes('INSERT INTO staging_orders'));
+            expect(insertCall![0]).toContain('data_quality_flags');
+            expect(insertCall![1][13]).toEqual([null, '["log_truncated","instruction_fallback"]']);
+        });
+
+        it('should not touch ingestion cursor without programId', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.saveBatchToDB(mockBatch);
+
+            expect(mockClient.query).not.toHaveBeenCalledWith(
+                expect.stringContaining('INSERT INTO ingestion_cursors'),
+                expect.any(Array)
+            );
+        });
+
+        it('should update ingestion cursor in the same transaction', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.saveBatchToDB(mockBatch, 'src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4');
+
+            expect(mockClient.query).toHaveBeenCalledWith(
+                expect.stringContaining('INSERT INTO ingestion_cursors'),
+                ['src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4', 'test_signature_2', 390000000, 'test_signature_1', 390000001]
+            );
+            const calls = mockClient.query.mock.calls.map(call => call[0]);
+            const cursorCallIndex = calls.findIndex(query => String(query).includes('INSERT INTO ingestion_cursors'));
+            expect(cursorCallIndex).toBeGreaterThan(calls.indexOf('BEGIN'));
+            expect(cursorCallIndex).toBeLessThan(calls.indexOf('COMMIT'));
+        });
+
+        it('should save big raw amounts without rounding', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
             const largeBatch: OrderInfoResult[] = [{
                 ...mockBatch[0],
-                amount: 10 ** 21
+                amount: '1234567890123456789012345678901',
+                decimals: 18
             }];
 
-            await expect(dbController.saveBatchToDB(largeBatch)).rejects.toThrow();
+            await dbController.saveBatchToDB(largeBatch);
+
+            const insertCall = mockClient.query.mock.calls.find(call => String(call[0]).includes('INSERT INTO staging_orders'));
+            expect(insertCall![1][5]).toEqual(['1234567890123456789012345678901']);
+            expect(insertCall![1][11]).toEqual([18]);
+            expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
         });
 
         it('should rollback on database error', async () => {
@@ -155,6 +534,117 @@ describe('DBController', () => {
         });
     });
 
+    describe('saveIngestionCursor', () => {
+        it('should move cursor over saved records', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+
+            await dbController.saveIngestionCursor('src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4', [
+                { signature: 'test_signature_2', slot: 390000000 } as OrderInfoResult,
+                { signature: 'test_signature_1', slot: 390000001 } as OrderInfoResult
+            ]);
+
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('INSERT INTO ingestion_cursors'),
+                ['src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4', 'test_signature_2', 390000000, 'test_signature_1', 390000001]
+            );
+        });
+    });
+
+    describe('getIngestionCursor', () => {
+        it('should return cursor for program', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [{
+                program_id: 'src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4',
+                oldest_signature: 'test_signature_2',
+                oldest_slot: '390000000',
+                newest_signature: 'test_signature_1',
+                newest_slot: '390000001'
+            }] });
+
+            const result = await dbController.getIngestionCursor('src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4');
+
+            expect(result).toEqual({
+                programId: 'src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4',
+                oldestSignature: 'test_signature_2',
+                oldestSlot: 390000000,
+                newestSignature: 'test_signature_1',
+                newestSlot: 390000001
+            });
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('FROM ingestion_cursors WHERE program_id = $1'),
+                ['src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4']
+            );
+        });
+
+        it('should return null if program has no cursor', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+
+            const result = await dbController.getIngestionCursor('src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4');
+
+            expect(result).toBeNull();
+        });
+    });
+
+    describe('token metadata', () => {
+        const metadata = {
+            mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+            symbol: 'USDC',
+            name: 'USD Coin',
+            decimals: 6,
+            tokenProgram: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+            source: 'jupiter' as const,
+            fetchedAt: new Date('2025-12-18T12:00:00Z')
+        };
+
+        it('should create token metadata table', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+
+            await dbController.createTablesIfNotExists();
+
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('CREATE TABLE IF NOT EXISTS token_metadata')
+            );
+        });
+
+        it('should return token metadata by mint', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [{
+                mint: metadata.mint,
+                symbol: 'USDC',
+                name: 'USD Coin',
+                decimals: 6,
+                token_program: metadata.tokenProgram,
+                source: 'jupiter',
+                fetched_at: metadata.fetchedAt
+            }] });
+
+            const result = await dbController.getTokenMetadata(metadata.mint);
+
+            expect(result).toEqual(metadata);
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('FROM token_metadata WHERE mint = $1'),
+                [metadata.mint]
+            );
+        });
+
+        it('should return null for unknown mint', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+
+            const result = await dbController.getTokenMetadata(metadata.mint);
+
+            expect(result).toBeNull();
+        });
+
+        it('should upsert token metadata', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+
+            await dbController.saveTokenMetadata(metadata);
+
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('ON CONFLICT (mint) DO UPDATE SET'),
+                [metadata.mint, 'USDC', 'USD Coin', 6, metadata.tokenProgram, 'jupiter', metadata.fetchedAt]
+            );
+        });
+    });
+
     describe('getLastDBRecord', () => {
         it('should return last record from staging', async () => {
             const mockRecord: OrderInfoResult = {
@@ -164,9 +654,10 @@ describe('DBController', () => {
                 timestamp: 1000000,
                 tokenKey: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
                 tokenSymbol: 'USDC',
-                amount: 100.5,
-                percentFee: 0.01,
-                fixedFee: 0.5
+                amount: '100500000',
+                decimals: 6,
+                percentFee: '10000',
+                fixedFee: '500000'
             };
 
             mockPoolInstance.query.mockResolvedValue({ rows: [mockRecord] });
@@ -179,6 +670,18 @@ describe('DBController', () => {
             );
         });
 
+        it('should return last record with status filter', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [{ signature: 'test_signature' }] });
+
+            const result = await dbController.getLastDBRecord('FILLED');
+
+            expect(result).toEqual({ signature: 'test_signature' });
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('SELECT * FROM staging_orders WHERE status = $1 ORDER BY timestamp DESC LIMIT 1'),
+                ['FILLED']
+            );
+        });
+
         it('should return null if no records found', async () => {
             mockPoolInstance.query.mockResolvedValue({ rows: [] });
 
@@ -198,9 +701,10 @@ describe('DBController', () => {
                 timestamp: 1000000,
                 tokenKey: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
                 tokenSymbol: 'USDC',
-                amount: 100.5,
-                percentFee: 0.01,
-                fixedFee: 0.5
+                amount: '100500000',
+                decimals: 6,
+                percentFee: '10000',
+                fixedFee: '500000'
             };
 
             mockClient.query.mockResolvedValue({ rows: [mockRecord] });
@@ -223,9 +727,10 @@ describe('DBController', () => {
                 timestamp: 1000000,
                 tokenKey: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
                 tokenSymbol: 'USDC',
-                amount: 100.5,
-                percentFee: 0.01,
-                fixedFee: 0.5
+                amount: '100500000',
+                decimals: 6,
+                percentFee: '10000',
+                fixedFee: '500000'
             };
 
             mockClient.query.mockResolvedValue({ rows: [mockRecord] });
@@ -272,6 +777,99 @@ describe('DBController', () => {
             expect(mockClient.release).toHaveBeenCalled();
         });
 
+        it('should move amount patches to order_amount_patches instead of silver_orders', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.convertMainStagingTableToSilver();
+
+            const moveQuery = String(mockClient.query.mock.calls.find(call => String(call[0]).includes('WITH moved_orders AS'))![0]);
+            expect(moveQuery).toContain('INSERT INTO order_amount_patches');
+            expect(moveQuery).toContain("WHERE mo.status NOT IN ('GIVE_PATCHED', 'TAKE_PATCHED')");
+        });
+
+        it('should scale raw amounts by decimals in SQL', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.convertMainStagingTableToSilver();
+
+            const moveQuery = String(mockClient.query.mock.calls.find(call => String(call[0]).includes('WITH moved_orders AS'))![0]);
+            expect(moveQuery).toContain("(amount::text || 'e-' || COALESCE(decimals, 0))::numeric AS scaled_amount");
+            expect(moveQuery).toContain("(fixed_fee::text || 'e-' || CASE WHEN decimals IS NULL THEN 0 ELSE 9 END)::numeric AS scaled_fixed_fee");
+            expect(moveQuery).toContain('SELECT mo.signature, mo.order_id, tk.id, mo.scaled_amount, mo.scaled_percent_fee, mo.scaled_fixed_fee');
+        });
+
+        it('should keep several events of one transaction in silver', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.convertMainStagingTableToSilver();
+
+            const moveQuery = String(mockClient.query.mock.calls.find(call => String(call[0]).includes('WITH moved_orders AS'))![0]);
+            expect(moveQuery).toContain('ON CONFLICT (signature, order_id, status_id) DO NOTHING');
+        });
+
+        it('should refresh token labels after new tokens are added', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.convertMainStagingTableToSilver();
+
+            const queries = mockClient.query.mock.calls.map(call => String(call[0]));
+            const tokensCallIndex = queries.findIndex(query => query.includes('INSERT INTO silver_tokens'));
+            const labelsCallIndex = queries.findIndex(query => query.includes('UPDATE silver_tokens tk SET display_label'));
+            expect(queries[tokensCallIndex]).toContain('ON CONFLICT (token_key) DO UPDATE SET token_symbol = EXCLUDED.token_symbol');
+            expect(queries[tokensCallIndex]).toContain('WHERE silver_tokens.token_symbol = UPPER(silver_tokens.token_key)');
+            expect(tokensCallIndex).toBeLessThan(labelsCallIndex);
+            expect(labelsCallIndex).toBeLessThan(queries.indexOf('COMMIT'));
+            expect(queries[labelsCallIndex]).toContain('LEFT JOIN token_metadata tm ON tk.token_key = tm.mint');
+            expect(queries[labelsCallIndex]).toContain('COUNT(*) OVER (PARTITION BY token_symbol) AS num_of_symbol_tokens');
+        });
+
+        it('should not nest symbol in token label when name starts with it', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.convertMainStagingTableToSilver();
+
+            const labelsQuery = String(mockClient.query.mock.calls.find(call => String(call[0]).includes('UPDATE silver_tokens tk SET display_label'))![0]);
+            expect(labelsQuery).toContain('LEFT(UPPER(TRIM(tm.name)), LENGTH(tk.token_symbol)) = UPPER(tk.token_symbol)');
+            expect(labelsQuery).toContain("WHEN name_without_symbol LIKE '(%)' THEN SUBSTRING(name_without_symbol FROM 2 FOR LENGTH(name_without_symbol) - 2)");
+        });
+
+        it('should move order details to silver_order_details', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.convertMainStagingTableToSilver();
+
+            const moveQuery = String(mockClient.query.mock.calls.find(call => String(call[0]).includes('WITH moved_orders AS'))![0]);
+            expect(moveQuery).toContain('INSERT INTO silver_order_details');
+            expect(moveQuery).toContain("mo.order_details->'receiverDst'->>'base58'");
+        });
+
+        it('should refresh lifecycle of moved orders', async () => {
+            mockClient.query.mockImplementation(async (query: string) => {
+                if (String(query).includes('WITH moved_orders AS')) {
+                    return { rows: [{ order_id: 'order_1' }, { order_id: 'order_2' }, { order_id: 'order_1' }] };
+                }
+                return { rows: [] };
+            });
+
+            await dbController.convertMainStagingTableToSilver();
+
+            const calls = mockClient.query.mock.calls.map(call => String(call[0]));
+            const lifecycleCallIndex = calls.findIndex(query => query.includes('INSERT INTO silver_order_lifecycle'));
+            expect(mockClient.query.mock.calls[lifecycleCallIndex][1]).toEqual([['order_1', 'order_2']]);
+            expect(lifecycleCallIndex).toBeLessThan(calls.indexOf('COMMIT'));
+        });
+
+        it('should not refresh lifecycle if nothing was moved', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.convertMainStagingTableToSilver();
+
+            expect(mockClient.query).not.toHaveBeenCalledWith(
+                expect.stringContaining('INSERT INTO silver_order_lifecycle'),
+                expect.any(Array)
+            );
+        });
+
         it('should rollback on error', async () => {
             const error = new Error('Database error');
             mockClient.query.mockRejectedValueOnce(error);
@@ -347,6 +945,82 @@ describe('DBController', () => {
         });
     });
 
+    describe('getCorridorReport', () => {
+        it('should aggregate corridors for the period', async () => {
+            const fromTime = new Date('2025-12-18T00:00:00Z');
+            const tillTime = new Date('2025-12-19T00:00:00Z');
+            mockPoolInstance.query.mockResolvedValue({
+                rows: [{
+                    give_chain: 'Solana',
+                    take_chain: 'Base',
+                    amount_usd: '101.31',
+                    percent_fee_usd: '0.04',
+                    fixed_fee_usd: '0',
+                    total_amount_usd: '101.35',
+                    num_of_orders: '1'
+                }]
+            });
+
+            const result = await dbController.getCorridorReport(fromTime, tillTime);
+
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('FROM gold_corridors_view'),
+                [fromTime, tillTime]
+            );
+            expect(result).toEqual([{
+                giveChain: 'Solana',
+                takeChain: 'Base',
+                amountUsd: 101.31,
+                percentFeeUsd: 0.04,
+                fixedFeeUsd: 0,
+                totalAmountUsd: 101.35,
+                numOfOrders: 1
+            }]);
+        });
+    });
+
+    describe('getStaleOrders', () => {
+        it('should group stale orders by token and take chain', async () => {
+            const olderThan = new Date('2025-12-18T10:00:00Z');
+            mockPoolInstance.query.mockResolvedValue({
+                rows: [{
+                    symbol: 'USDC',
+                    take_chain: 'Base',
+                    num_of_orders: '2',
+                    total_amount: '150.5',
+                    oldest_created_at: new Date('2025-12-18T09:00:00Z'),
+                    order_ids: ['order_1', 'order_2']
+                }]
+            });
+
+            const result = await dbController.getStaleOrders(olderThan);
+
+            expect(mockPoolInstance.query).toHaveBeenCalledWith(
+                expect.stringContaining('FROM silver_order_lifecycle ol'),
+                [olderThan]
+            );
+            expect(result).toEqual([{
+                symbol: 'USDC',
+                takeChain: 'Base',
+                numOfOrders: 2,
+                totalAmount: 150.5,
+                oldestCreatedAt: new Date('2025-12-18T09:00:00Z'),
+                orderIds: ['order_1', 'order_2']
+            }]);
+        });
+
+        it('should sum the last give patch amount of stale orders', async () => {
+            mockPoolInstance.query.mockResolvedValue({ rows: [] });
+
+            await dbController.getStaleOrders(new Date('2025-12-18T10:00:00Z'));
+
+            const query = String(mockPoolInstance.query.mock.calls[0][0]);
+            expect(query).toContain('FROM order_amount_patches p');
+            expect(query).toContain("p.side = 'GIVE'");
+            expect(query).toContain('SUM(COALESCE(lp.final_amount, ol.created_amount)) AS total_amount');
+        });
+    });
+
     describe('madeViews', () => {
         it('should create views successfully', async () => {
             mockClient.query.mockResolvedValue({ rows: [] });
@@ -362,6 +1036,55 @@ describe('DBController', () => {
             expect(mockClient.release).toHaveBeenCalled();
         });
 
+        it('should use final patched amounts in gold view', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.madeViews();
+
+            const viewQuery = String(mockClient.query.mock.calls.find(call => String(call[0]).includes('CREATE OR REPLACE VIEW gold_orders_view'))![0]);
+            expect(viewQuery).toContain('FROM order_amount_patches p');
+            expect(viewQuery).toContain('COALESCE(lp.final_amount, so.amount) AS amount');
+            expect(viewQuery).toContain('tk.display_label as "symbol"');
+        });
+
+        it('should replace fill latency view with latency view that tells fill and unlock apart', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.madeViews();
+
+            const viewQuery = String(mockClient.query.mock.calls.find(call => String(call[0]).includes('CREATE OR REPLACE VIEW gold_order_latency_view'))![0]);
+            expect(viewQuery).toContain('DROP VIEW IF EXISTS gold_fill_latency_view');
+            expect(viewQuery).toContain('FROM silver_order_lifecycle ol');
+            expect(viewQuery).toContain('PERCENTILE_CONT(0.99)');
+            expect(viewQuery).toContain("SELECT 'filled' AS measured_to");
+            expect(viewQuery).toContain("SELECT 'unlocked' AS measured_to");
+            expect(viewQuery).toContain('GROUP BY GROUPING SETS ((lt.hour, lt.measured_to, tk.display_label), (lt.hour, lt.measured_to, od.take_chain_id, tc.chain_name))');
+            expect(viewQuery).toContain("COALESCE(tc.chain_name, 'Chain ' || od.take_chain_id, 'UNKNOWN')");
+        });
+
+        it('should price fixed fee by SOL', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.madeViews();
+
+            for (const viewName of ['gold_orders_view', 'gold_corridors_view']) {
+                const viewQuery = String(mockClient.query.mock.calls.find(call => String(call[0]).includes(`CREATE OR REPLACE VIEW ${viewName}`))![0]);
+                expect(viewQuery).toContain("LEFT JOIN silver_tokens sol ON sol.token_key = 'So11111111111111111111111111111111111111112'");
+                expect(viewQuery).toContain('fixed_fee * sol_p.price_usd) AS fixed_fee_usd');
+                expect(viewQuery).not.toContain('fixed_fee * sp.price_usd');
+            }
+        });
+
+        it('should create corridors view', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.madeViews();
+
+            expect(mockClient.query).toHaveBeenCalledWith(
+                expect.stringContaining('CREATE OR REPLACE VIEW gold_corridors_view')
+            );
+        });
+
         it('should rollback on error', async () => {
             const error = new Error('Database error');
             mockClient.query.mockRejectedValueOnce(error);
@@ -396,6 +1119,16 @@ describe('DBController', () => {
             expect(mockClient.release).toHaveBeenCalled();
         });
 
+        it('should request SOL prices for fixed fees', async () => {
+            mockClient.query.mockResolvedValue({ rows: [] });
+
+            await dbController.getTokenTimeListNotInPriceTable();
+
+            const query = String(mockClient.query.mock.calls[0][0]);
+            expect(query).toContain("JOIN silver_tokens sol ON sol.token_key = 'So11111111111111111111111111111111111111112'");
+            expect(query).toContain('WHERE so.fixed_fee > 0');
+        });
+
         it('should return empty array if no tokens found', async () => {
             mockClient.query.mockResolvedValue({ rows: [] });
 
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { METAPLEX_METADATA_PROGRAM_ID, OnChainTokenResolver } from '../src/infrastructure/onchain_token_resolver';
+
+const usdcMint = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+const tokenProgram = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const token2022Program = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+function mintAccount(decimals: number, owner: string = tokenProgram, extensions: Buffer[] = []) {
+    // Raw mint: decimals and is initialized flag, Token-2022 extensions go after the account type
+    const base = Buffer.alloc(82);
+    base[44] = decimals;
+    base[45] = 1;
+    const data = extensions.length > 0 ? Buffer.concat([base, Buffer.alloc(165 - 82), Buffer.from([1]), ...extensions]) : base;
+    return { owner: new PublicKey(owner), data: data, executable: false, lamports: 1461600 };
+}
+
+function extension(type: number, value: Buffer): Buffer {
+    const header = Buffer.alloc(4);
+    header.writeUInt16LE(type, 0);
+    header.writeUInt16LE(value.length, 2);
+    return Buffer.concat([header, value]);
+}
+
+function tokenMetadataExtension(name: string, symbol: string): Buffer {
+    return extension(19, Buffer.concat([
+        PublicKey.unique().toBuffer(),
+        usdcMint.toBuffer(),
+        borshString(name, name.length),
+        borshString(symbol, symbol.length),
+        borshString('', 0),
+        Buffer.alloc(4)
+    ]));
+}
+
+function borshString(value: string, maxLength: number): Buffer {
+    // Metaplex pads strings with zero bytes
+    const bytes = Buffer.alloc(maxLength);
+    bytes.write(value);
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(maxLength);
+    return Buffer.concat([length, bytes]);
+}
+
+function metaplexAccountData(name: string, symbol: string): Buffer {
+    return Buffer.concat([
+        Buffer.from([4]),
+        PublicKey.unique().toBuffer(),
+        usdcMint.toBuffer(),
+        borshString(name, 32),
+        borshString(symbol, 10),
+        borshString('https://example.com/usdc.json', 200)
+    ]);
+}
+
+describe('OnChainTokenResolver', () => {
+    let mockConnection: Connection;
+    let resolver: OnChainTokenResolver;
+
+    function mockAccounts(mint: any, metaplex: any = null) {
+        // The resolver requests mints first and then their metadata accounts
+        vi.mocked(mockConnection.getMultipleAccountsInfo).mockImplementation(async (keys: PublicKey[]) =>
+            keys.map((_, index) => index < keys.length / 2 ? mint : metaplex));
+    }
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockConnection = {
+            getMultipleAccountsInfo: vi.fn()
+        } as any;
+        mockAccounts(mintAccount(6));
+        resolver = new OnChainTokenResolver(mockConnection);
+    });
+
+    describe('constructor', () => {
+        it('should throw error if connection is null', () => {
+            expect(() => new OnChainTokenResolver(null as any)).toThrow('Connection is required');
+        });
+    });
+
+    describe('resolve', () => {
+        it('should take symbol and name from Metaplex metadata', async () => {
+            mockAccounts(mintAccount(6), { data: metaplexAccountData('USD Coin', 'USDC') });
+
+            const result = await resolver.resolve(usdcMint);
+
+            const [metadataAddress] = PublicKey.findProgramAddressSync(
+                [Buffer.from('metadata'), METAPLEX_METADATA_PROGRAM_ID.toBuffer(), usdcMint.toBuffer()],
+                METAPLEX_METADATA_PROGRAM_ID
+            );
+            expect(mockConnection.getMultipleAccountsInfo).toHaveBeenCalledWith([usdcMint, metadataAddress]);
+            expect(result).toEqual({
+                mint: usdcMint.toString(),
+                symbol: 'USDC',
+                name: 'USD Coin',
+                decimals: 6,
+                tokenProgram: tokenProgram,
+                source: 'metaplex',
+                fetchedAt: expect.any(Date)
+            });
+        });
+
+        it('should take symbol and name from Token-2022 metadata extension', async () => {
+            mockAccounts(mintAccount(9, token2022Program, [
+                extension(6, Buffer.alloc(32)),
+                tokenMetadataExtension('Paypal USD', 'PYUSD')
+            ]), { data: metaplexAccountData('Other', 'OTHER') });
+
+            const result = await resolver.resolve(usdcMint);
+
+            expect(result).toMatchObject({ symbol: 'PYUSD', name: 'Paypal USD', decimals: 9, tokenProgram: token2022Program, source: 'token-2022' });
+        });
+
+        it('should use mint as symbol without metadata', async () => {
+            const result = await resolver.resolve(usdcMint);
+
+            expect(result).toMatchObject({ symbol: usdcMint.toString(), name: null, decimals: 6, source: 'mint' });
+        });
+
+        it('should return null if account is a token account', async () => {
+            mockAccounts({ ...mintAccount(6), data: Buffer.alloc(165) });
+
+            const result = await resolver.resolve(usdcMint);
+
+            expect(result).toBeNull();
+        });
+
+        it('should return null if account is not owned by token program', async () => {
+            mockAccounts(mintAccount(6, '11111111111111111111111111111111'));
+
+            const result = await resolver.resolve(usdcMint);
+
+            expect(result).toBeNull();
+        });
+
+        it('should return null if account is not found', async () => {
+            mockAccounts(null);
+
+            const result = await resolver.resolve(usdcMint);
+
+            expect(result).toBeNull();
+        });
+    });
+
+    describe('resolveMany', () => {
+        it('should read mints and metadata accounts with one request', async () => {
+            const otherMint = PublicKey.unique();
+            vi.mocked(mockConnection.getMultipleAccountsInfo).mockResolvedValue([
+                mintAccount(6), mintAccount(8), { data: metaplexAccountData('USD Coin', 'USDC') } as any, null
+            ]);
+
+            const result = await resolver.resolveMany([usdcMint, otherMint]);
+
+            expect(mockConnection.getMultipleAccountsInfo).toHaveBeenCalledTimes(1);
+            expect(result.get(usdcMint.toString())).toMatchObject({ symbol: 'USDC', decimals: 6 });
+            expect(result.get(otherMint.toString())).toMatchObject({ symbol: otherMint.toString(), decimals: 8, source: 'mint' });
+        });
+
+        it('should split big batches into several requests', async () => {
+            const mints = Array.from({ length: 120 }, () => PublicKey.unique());
+
+            const result = await resolver.resolveMany(mints);
+
+            expect(mockConnection.getMultipleAccountsInfo).toHaveBeenCalledTimes(3);
+            expect(vi.mocked(mockConnection.getMultipleAccountsInfo).mock.calls[0][0]).toHaveLength(100);
+            expect(result.size).toBe(120);
+        });
+    });
+
+    describe('_parseMetaplexMetadata', () => {
+        it('should return null for truncated account data', () => {
+            const data = metaplexAccountData('USD Coin', 'USDC').subarray(0, 80);
+
+            expect(resolver._parseMetaplexMetadata(data)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BN, BorshCoder, Event, utils } from '@coral-xyz/anchor';
+import { PublicKey, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { OrderCancelledParser } from '../src/scrapper/order_cancelled_parser';
+import { InstructionDecoder } from '../src/scrapper/instruction_decoder';
+import { TokensInfoCache } from '../src/infrastructure/tokens_info_cache';
+import { TokenInfo } from '../src/interfaces/infrastructure_interfaces';
+import { IDL as DlnDstIdl } from '../src/idl/dst';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const testDataDir = path.join(__dirname, 'tests_data');
+const fulfillTransactionFile = path.join(testDataDir, 'tx_3qQSDktLZrvPd2QMEkBtxJmpE1jJeHE88Nzws3rgZAmmzTpa46RaWh4bkfXStXDKCprZd8NAYct8qMnBDQn3MC77.json');
+
+const dstProgramID = new PublicKey('dst5MGcFPoBeREFAA5E3tU5ij8m5uVYwkzkSAbsLbNo');
+const orderId = '76ef49d302f1c30f8b3b0e3f1b294b604c5245a7566c0b05c1279a525dfb703c';
+const canceler = PublicKey.unique().toString();
+const coder = new BorshCoder(DlnDstIdl);
+
+function loadOrderFromFulfillTransaction(): any {
+    // Cancel transactions are rare, so the order is taken from the fulfill transaction of the same order
+    const transaction = JSON.parse(fs.readFileSync(fulfillTransactionFile, 'utf-8'));
+    const fulfillInstruction = transaction.transaction.message.instructions.find((instruction: any) => instruction.programId === dstProgramID.toString());
+    const decoded = coder.instruction.decode(fulfillInstruction.data, 'base58') as any;
+    return decoded.data.unvalidatedOrder;
+}
+
+function buildCancelTransaction(instructionName: 'cancelOrder' | 'sendOrderCancel', cancelOrderId: string = orderId): ParsedTransactionWithMeta {
+    const orderIdBytes = Buffer.from(orderId, 'hex');
+    const [takeOrderState] = PublicKey.findProgramAddressSync([Buffer.from('TAKE_ORDER_STATE'), orderIdBytes], dstProgramID);
+    const idlInstruction = DlnDstIdl.instructions.find(instruction => instruction.name === instructionName)!;
+    const accounts: string[] = [];
+    const collectAccounts = (items: any[]) => {
+        for (const account of items) {
+            if ('accounts' in account) {
+                collectAccounts(account.accounts);
+                continue;
+            }
+            switch (account.name) {
+                case 'takeOrderState': accounts.push(takeOrderState.toString()); break;
+                case 'canceler': accounts.push(canceler); break;
+                default: accounts.push(PublicKey.unique().toString());
+            }
+        }
+    };
+    collectAccounts(idlInstruction.accounts);
+    const cancelOrderIdBytes = Array.from(Buffer.from(cancelOrderId, 'hex'));
+    const data = instructionName === 'cancelOrder'
+        ? coder.instruction.encode(instructionName, { unvalidatedOrder: loadOrderFromFulfillTransaction(), orderId: cancelOrderIdBytes })
+        : coder.instruction.encode(instructionName, { orderId: cancelOrderIdBytes, cancelBeneficiary: Buffer.alloc(20, 1), executionFee: new BN(0) });
+    return {
+        blockTime: 1766061057,
+        slot: 390000000,
+        transaction: {
+            signatures: ['cancel_signature'],
+            message: {
+                instructions: [{
+                    programId: dstProgramID.toString(),
+                    accounts: accounts,
+                    data: utils.bytes.bs58.encode(data)
+                }]
+            }
+        },
+        meta: {
+            logMessages: [],
+            innerInstructions: []
+        }
+    } as any;
+}
+
+describe('OrderCancelledParser', () => {
+    let parser: OrderCancelledParser;
+    let decoder: InstructionDecoder;
+    let mockTokensInfo: TokensInfoCache;
+    const solTokenInfo: TokenInfo = {
+        key: 'So11111111111111111111111111111111111111112',
+        symbol: 'SOL',
+        precision: 9
+    };
+    const orderCancelledEvent = { name: 'OrderCancelled', data: {} } as Event;
+    const sentOrderCancelEvent = { name: 'SentOrderCancel', data: {} } as Event;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        parser = new OrderCancelledParser(dstProgramID);
+        decoder = new InstructionDecoder(dstProgramID, DlnDstIdl);
+        mockTokensInfo = {
+            getTokenInfo: vi.fn().mockResolvedValue(solTokenInfo)
+        } as any;
+    });
+
+    describe('constructor', () => {
+        it('should throw error if dstProgramID is null', () => {
+            expect(() => {
+                new OrderCancelledParser(null as any);
+            }).toThrow('DLN_DST_PROGRAM_ID is not set');
+        });
+    });
+
+    describe('parseOrderCancelledEvent', () => {
+        it('should parse cancelled order with take amount', async () => {
+            const transaction = buildCancelTransaction('cancelOrder');
+
+            const result = await parser.parseOrderCancelledEvent([orderCancelledEvent], decoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toHaveLength(1);
+            expect(result![0]).toEqual({
+                orderId: orderId,
+                status: 'cancelled',
+                amount: '3919776213',
+                decimals: 9,
+                tokenKey: solTokenInfo.key,
+                tokenSymbol: 'SOL',
+                actor: canceler
+            });
+            expect(mockTokensInfo.getTokenInfo).toHaveBeenCalledWith(new PublicKey(solTokenInfo.key));
+        });
+
+        it('should parse sent order cancel without token', async () => {
+            const transaction = buildCancelTransaction('sendOrderCancel');
+
+            const result = await parser.parseOrderCancelledEvent([sentOrderCancelEvent], decoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toEqual([{
+                orderId: orderId,
+                status: 'cancel_sent',
+                amount: '0',
+                decimals: 0,
+                tokenKey: null,
+                tokenSymbol: null,
+                actor: canceler
+            }]);
+            expect(mockTokensInfo.getTokenInfo).not.toHaveBeenCalled();
+        });
+
+        it('should return null if cancel events are missing', async () => {
+            const transaction = buildCancelTransaction('cancelOrder');
+
+            const result = await parser.parseOrderCancelledEvent([], decoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toBeNull();
+        });
+
+        it('should skip cancel if event does not match instruction', async () => {
+            const transaction = buildCancelTransaction('cancelOrder');
+
+            const result = await parser.parseOrderCancelledEvent([sentOrderCancelEvent], decoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toEqual([]);
+        });
+
+        it('should skip cancel if order ID does not match takeOrderState', async () => {
+            const transaction = buildCancelTransaction('sendOrderCancel', '291438b251464b56304ffab86e7690385fbcdcc8d046ead858853446bad5e3b0');
+
+            const result = await parser.parseOrderCancelledEvent([sentOrderCancelEvent], decoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toEqual([]);
+        });
+
+        it('should use default SOL token info if cache returns null', async () => {
+            vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(null);
+            const transaction = buildCancelTransaction('cancelOrder');
+
+            const result = await parser.parseOrderCancelledEvent([orderCancelledEvent], decoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result![0].tokenKey).toBe(solTokenInfo.key);
+            expect(result![0].tokenSymbol).toBe('SOL');
+        });
+    });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BorshCoder, Event, utils } from '@coral-xyz/anchor';
+import { PublicKey, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { OrderClaimedParser } from '../src/scrapper/order_claimed_parser';
+import { InstructionDecoder } from '../src/scrapper/instruction_decoder';
+import { TokensInfoCache } from '../src/infrastructure/tokens_info_cache';
+import { TokenInfo } from '../src/interfaces/infrastructure_interfaces';
+import { IDL as DlnSrcIdl } from '../src/idl/src';
+
+const srcProgramID = new PublicKey('src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4');
+const orderId = '291438b251464b56304ffab86e7690385fbcdcc8d046ead858853446bad5e3b0';
+const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const giveOrderWallet = PublicKey.unique().toString();
+const beneficiaryWallet = PublicKey.unique().toString();
+const feeLedgerWallet = PublicKey.unique().toString();
+
+function buildClaimTransaction(instructionName: 'claimUnlock' | 'claimOrderCancel', claimOrderId: string = orderId): ParsedTransactionWithMeta {
+    // Claims with real data are rare, so the transaction is built with the same IDL
+    const coder = new BorshCoder(DlnSrcIdl);
+    const orderIdBytes = Buffer.from(orderId, 'hex');
+    const [giveOrderState] = PublicKey.findProgramAddressSync([Buffer.from('GIVE_ORDER_STATE'), orderIdBytes], srcProgramID);
+    const idlInstruction = DlnSrcIdl.instructions.find(instruction => instruction.name === instructionName)!;
+    const accounts = idlInstruction.accounts.map(account => {
+        switch (account.name) {
+            case 'giveOrderState': return giveOrderState.toString();
+            case 'giveOrderWallet': return giveOrderWallet;
+            case 'actionBeneficiaryWallet': return beneficiaryWallet;
+            case 'feeLedgerWallet': return feeLedgerWallet;
+            case 'tokenMint': return usdcMint;
+            default: return PublicKey.unique().toString();
+        }
+    });
+    const data = coder.instruction.encode(instructionName, { orderId: Array.from(Buffer.from(claimOrderId, 'hex')) });
+    return {
+        blockTime: 1766061057,
+        slot: 390000000,
+        transaction: {
+            signatures: ['claim_signature'],
+            message: {
+                instructions: [{
+                    programId: srcProgramID.toString(),
+                    accounts: accounts,
+                    data: utils.bytes.bs58.encode(data)
+                }]
+            }
+        },
+        meta: {
+            logMessages: [],
+            innerInstructions: [{
+                index: 0,
+                instructions: [
+                    {
+                        program: 'spl-token',
+                        programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+                        parsed: {
+                            type: 'transferChecked',
+                            info: { source: giveOrderWallet, destination: feeLedgerWallet, mint: usdcMint, tokenAmount: { amount: '40000', decimals: 6 } }
+                        }
+                    },
+                    {
+                        program: 'spl-token',
+                        programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+                        parsed: {
+                            type: 'transferChecked',
+                            info: { source: giveOrderWallet, destination: beneficiaryWallet, mint: usdcMint, tokenAmount: { amount: '101314781', decimals: 6 } }
+                        }
+                    }
+                ]
+            }]
+        }
+    } as any;
+}
+
+describe('OrderClaimedParser', () => {
+    let parser: OrderClaimedParser;
+    let decoder: InstructionDecoder;
+    let mockTokensInfo: TokensInfoCache;
+    const usdcTokenInfo: TokenInfo = {
+        key: usdcMint,
+        symbol: 'USDC',
+        precision: 6
+    };
+    const claimedUnlockEvent = { name: 'ClaimedUnlock', data: {} } as Event;
+    const claimedOrderCancelEvent = { name: 'ClaimedOrderCancel', data: {} } as Event;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        parser = new OrderClaimedParser(srcProgramID);
+        decoder = new InstructionDecoder(srcProgramID, DlnSrcIdl);
+        mockTokensInfo = {
+            getTokenInfo: vi.fn().mockResolvedValue(usdcTokenInfo)
+        } as any;
+    });
+
+    describe('constructor', () => {
+        it('should throw error if srcProgramID is null', () => {
+            expect(() => {
+                new OrderClaimedParser(null as any);
+            }).toThrow('DLN_SRC_PROGRAM_ID is not set');
+        });
+    });
+
+    describe('parseOrderClaimedEvent', () => {
+        it('should parse claimed unlock', async () => {
+            const transaction = buildClaimTransaction('claimUnlock');
+
+            const result = await parser.parseOrderClaimedEvent([claimedUnlockEvent], decoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toEqual([{
+                orderId: orderId,
+                status: 'unlocked',
+                amount: '101314781',
+                decimals: 6,
+                tokenKey: usdcMint,
+                tokenSymbol: 'USDC'
+            }]);
+            expect(mockTokensInfo.getTokenInfo).toHaveBeenCalledWith(new PublicKey(usdcMint));
+        });
+
+        it('should parse claimed order cancel', async () => {
+            const transaction = buildClaimTransaction('claimOrderCancel');
+
+            const result = await parser.parseOrderClaimedEvent([claimedOrderCancelEvent], decoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toHaveLength(1);
+            expect(result![0].status).toBe('cancel_claimed');
+            expect(result![0].orderId).toBe(orderId);
+        });
+
+        it('should return null if claim events are missing', async () => {
+            const transaction = buildClaimTransaction('claimUnlock');
+
+            const result = await parser.parseOrderClaimedEvent([], decoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toBeNull();
+        });
+
+        it('should return null if claim instructions and events mismatch', async () => {
+            const transaction = buildClaimTransaction('claimUnlock');
+
+            const result = await parser.parseOrderClaimedEvent([claimedUnlockEvent, claimedUnlockEvent], decoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toBeNull();
+        });
+
+        it('should skip claim if event does not match instruction', async () => {
+            const transaction = buildClaimTransaction('claimUnlock');
+
+            const result = await parser.parseOrderClaimedEvent([claimedOrderCancelEvent], decoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toEqual([]);
+        });
+
+        it('should skip claim if order ID does not match giveOrderState', async () => {
+            const transaction = buildClaimTransaction('claimUnlock', '76ef49d302f1c30f8b3b0e3f1b294b604c5245a7566c0b05c1279a525dfb703c');
+
+            const result = await parser.parseOrderClaimedEvent([claimedUnlockEvent], decoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toEqual([]);
+        });
+
+        it('should skip claim without transfer to beneficiary', async () => {
+            const transaction = buildClaimTransaction('claimUnlock');
+            transaction.meta!.innerInstructions = [];
+
+            const result = await parser.parseOrderClaimedEvent([claimedUnlockEvent], decoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toEqual([]);
+        });
+
+        it('should take decimals from token balances if cache returns null', async () => {
+            vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(null);
+            const transaction = buildClaimTransaction('claimUnlock');
+            transaction.meta!.postTokenBalances = [{ accountIndex: 2, mint: usdcMint, uiTokenAmount: { amount: '0', decimals: 6, uiAmount: 0, uiAmountString: '0' } }];
+
+            const result = await parser.parseOrderClaimedEvent([claimedUnlockEvent], decoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result![0].tokenKey).toBe(usdcMint);
+            expect(result![0].tokenSymbol).toBe(usdcMint);
+            expect(result![0].decimals).toBe(6);
+        });
+
+        it('should skip claim if token info and token balances are not available', async () => {
+            vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(null);
+            const transaction = buildClaimTransaction('claimUnlock');
+
+            const result = await parser.parseOrderClaimedEvent([claimedUnlockEvent], decoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toEqual([]);
+        });
+    });
+
+    describe('_getAmountFromTransfer', () => {
+        it('should return raw amount for plain SPL transfer', () => {
+            const instruction = { parsed: { type: 'transfer', info: { amount: '2500000' } } } as any;
+
+            expect(parser._getAmountFromTransfer(instruction)).toBe('2500000');
+        });
+
+        it('should return raw lamports for SOL transfer', () => {
+            const instruction = { parsed: { type: 'transfer', info: { lamports: 1500000000 } } } as any;
+
+            expect(parser._getAmountFromTransfer(instruction)).toBe('1500000000');
+        });
+    });
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { EventParser, BorshCoder, Event } from '@coral-xyz/anchor';
+import { EventParser, BorshCoder, BN, Event } from '@coral-xyz/anchor';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { OrderCreatedParser } from '../src/scrapper/order_created_parser';
+import { getOrderId } from '../src/scrapper/order_id';
 import { TokensInfoCache } from '../src/infrastructure/tokens_info_cache';
 import { ParsedOrderCreated } from '../src/interfaces/scrapper_interfaces';
 import { TokenInfo } from '../src/interfaces/infrastructure_interfaces';
@@ -9,6 +10,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import { IDL as DlnSrcIdl } from '../src/idl/src';
+import { InstructionDecoder } from '../src/scrapper/instruction_decoder';
 
 // Mock global fetch
 global.fetch = vi.fn();
@@ -41,7 +43,7 @@ describe('OrderCreatedParser', () => {
 
     beforeEach(() => {
         vi.clearAllMocks();
-        parser = new OrderCreatedParser();
+        parser = new OrderCreatedParser(new PublicKey('src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4'));
         mockConnection = {} as Connection;
         mockTokensInfo = {
             getTokenInfo: vi.fn()
@@ -52,6 +54,13 @@ describe('OrderCreatedParser', () => {
         testEvents = parseEventsFromTransaction(testTransaction);
     });
 
+    describe('constructor', () => {
+        it('should throw error for wrong percent fee', () => {
+            expect(() => new OrderCreatedParser(new PublicKey('src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4'), NaN)).toThrow('Wrong percent fee: NaN bps');
+            expect(() => new OrderCreatedParser(new PublicKey('src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4'), -1)).toThrow('Wrong percent fee: -1 bps');
+        });
+    });
+
     describe('parseOrderCreatedEvent', () => {
         it('should parse order created event from real transaction', async () => {
             const tokenPublicKey = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
@@ -63,7 +72,7 @@ describe('OrderCreatedParser', () => {
 
             vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(mockTokenInfo);
 
-            const result = await parser.parseOrderCreatedEvent(testEvents, mockTokensInfo);
+            const result = await parser.parseOrderCreatedEvent(testEvents, mockTokensInfo, testTransaction);
 
             expect(result).not.toBeNull();
             expect(Array.isArray(result)).toBe(true);
@@ -73,69 +82,216 @@ describe('OrderCreatedParser', () => {
             expect(order).toHaveProperty('status', 'created');
             expect(order).toHaveProperty('percentFee');
             expect(order).toHaveProperty('fixedFee');
+            expect(order.fixedFee).toBe('15000000');
             expect(order).toHaveProperty('tokenSymbol');
             
             // Check specific values for orderId, tokenKey and amount
             expect(order.orderId).toBe('291438b251464b56304ffab86e7690385fbcdcc8d046ead858853446bad5e3b0');
             expect(order.tokenKey).toBe('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
-            expect(order.amount).toBeCloseTo(101.314781, 5);
+            expect(order.amount).toBe('101314781');
+            expect(order.decimals).toBe(6);
+            expect(order.details.takeChainId).toBe('8453');
         });
 
-        it('should return null if CreatedOrderId event is missing', async () => {
+        it('should derive order ID if CreatedOrderId event is missing', async () => {
             const eventsWithoutId: Event[] = testEvents.filter(e => e.name !== 'CreatedOrderId');
 
-            const result = await parser.parseOrderCreatedEvent(eventsWithoutId, mockTokensInfo);
+            const result = await parser.parseOrderCreatedEvent(eventsWithoutId, mockTokensInfo, testTransaction);
 
-            expect(result).toBeNull();
+            expect(result).toHaveLength(1);
+            expect(result![0].orderId).toBe('291438b251464b56304ffab86e7690385fbcdcc8d046ead858853446bad5e3b0');
+            expect(result![0].dataQualityFlags).toBeUndefined();
+        });
+
+        it('should pair several orders with their IDs by position', async () => {
+            const orderEvent = testEvents.find(e => e.name === 'CreatedOrder')!;
+            const idEvent = testEvents.find(e => e.name === 'CreatedOrderId')!;
+            const secondOrder = { ...(orderEvent.data as any).order, makerOrderNonce: new BN(7) };
+            const secondOrderId = getOrderId(secondOrder);
+            const batchEvents: Event[] = [
+                orderEvent,
+                idEvent,
+                { ...orderEvent, data: { ...orderEvent.data, order: secondOrder } },
+                { ...idEvent, data: { orderId: Array.from(Buffer.from(secondOrderId, 'hex')) } }
+            ];
+
+            const result = await parser.parseOrderCreatedEvent(batchEvents, mockTokensInfo, testTransaction);
+
+            expect(result!.map(order => order.orderId)).toEqual(['291438b251464b56304ffab86e7690385fbcdcc8d046ead858853446bad5e3b0', secondOrderId]);
+            expect(result![1].details.makerOrderNonce).toBe('7');
+            expect(result!.every(order => order.dataQualityFlags === undefined)).toBe(true);
+        });
+
+        it('should not take ID of the next order if own CreatedOrderId is missing', async () => {
+            const orderEvent = testEvents.find(e => e.name === 'CreatedOrder')!;
+            const idEvent = testEvents.find(e => e.name === 'CreatedOrderId')!;
+            const secondOrder = { ...(orderEvent.data as any).order, makerOrderNonce: new BN(7) };
+            const batchEvents: Event[] = [
+                { ...orderEvent, data: { ...orderEvent.data, order: secondOrder } },
+                orderEvent,
+                idEvent
+            ];
+
+            const result = await parser.parseOrderCreatedEvent(batchEvents, mockTokensInfo, testTransaction);
+
+            expect(result!.map(order => order.orderId)).toEqual([getOrderId(secondOrder), '291438b251464b56304ffab86e7690385fbcdcc8d046ead858853446bad5e3b0']);
+            expect(result!.every(order => order.dataQualityFlags === undefined)).toBe(true);
+        });
+
+        it('should flag order ID mismatch and keep ID from the event', async () => {
+            const otherOrderId = Array.from(Buffer.alloc(32, 1));
+            const eventsWithOtherId: Event[] = testEvents.map(e => e.name === 'CreatedOrderId' ? { ...e, data: { orderId: otherOrderId } } : e);
+
+            const result = await parser.parseOrderCreatedEvent(eventsWithOtherId, mockTokensInfo, testTransaction);
+
+            expect(result![0].orderId).toBe(Buffer.from(otherOrderId).toString('hex'));
+            expect(result![0].dataQualityFlags).toEqual(['order_id_mismatch']);
         });
 
         it('should return null if CreatedOrder event is missing', async () => {
             const eventsWithoutOrder: Event[] = testEvents.filter(e => e.name !== 'CreatedOrder');
 
-            const result = await parser.parseOrderCreatedEvent(eventsWithoutOrder, mockTokensInfo);
+            const result = await parser.parseOrderCreatedEvent(eventsWithoutOrder, mockTokensInfo, testTransaction);
 
             expect(result).toBeNull();
         });
 
         it('should return null if events array is empty', async () => {
-            const result = await parser.parseOrderCreatedEvent([], mockTokensInfo);
+            const result = await parser.parseOrderCreatedEvent([], mockTokensInfo, testTransaction);
 
             expect(result).toBeNull();
         });
 
-        it('should use default values when token info is not available', async () => {
+        it('should take decimals from token balances when token info is not available', async () => {
             vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(null);
 
-            const result = await parser.parseOrderCreatedEvent(testEvents, mockTokensInfo);
+            const result = await parser.parseOrderCreatedEvent(testEvents, mockTokensInfo, testTransaction);
 
             expect(result).not.toBeNull();
             const order = result![0];
-            expect(order.tokenSymbol).toBe('USDC');
-            expect(order.tokenKey).toBe('USDC');
+            expect(order.tokenSymbol).toBe('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+            expect(order.tokenKey).toBe('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+            expect(order.decimals).toBe(6);
+        });
+
+        it('should skip order when token info and token balances are not available', async () => {
+            vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(null);
+            const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const transactionWithoutBalances = { ...testTransaction, meta: { ...testTransaction.meta, preTokenBalances: [], postTokenBalances: [] } };
+
+            const result = await parser.parseOrderCreatedEvent(testEvents, mockTokensInfo, transactionWithoutBalances);
+
+            expect(result).toEqual([]);
+            expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Token info not found'));
+            consoleErrorSpy.mockRestore();
         });
 
 
     });
 
+    describe('parseCreateInstructionsWithoutEvents', () => {
+        const srcProgramId = new PublicKey('src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4');
+        const tokenInfo: TokenInfo = { key: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', symbol: 'USDC', precision: 6 };
+
+        function decodeInstructions(transaction: any) {
+            return new InstructionDecoder(srcProgramId, DlnSrcIdl as any).decodeTransaction(transaction);
+        }
+
+        beforeEach(() => {
+            vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(tokenInfo);
+        });
+
+        it('should restore created order from createOrderWithNonce', async () => {
+            const instructions = decodeInstructions(testTransaction);
+
+            const result = await parser.parseCreateInstructionsWithoutEvents([], instructions, mockTokensInfo, testTransaction);
+            const expected = await parser.parseOrderCreatedEvent(testEvents, mockTokensInfo, testTransaction);
+
+            expect(result).toHaveLength(1);
+            expect(result![0].orderId).toBe('291438b251464b56304ffab86e7690385fbcdcc8d046ead858853446bad5e3b0');
+            expect(result![0].amount).toBe('101314781');
+            expect(result![0].percentFee).toBe('40542');
+            expect(result![0].details).toEqual(expected![0].details);
+            expect(result![0].dataQualityFlags).toEqual(['instruction_fallback']);
+        });
+
+        it('should not restore order that has event', async () => {
+            const instructions = decodeInstructions(testTransaction);
+            const eventsWithoutId = testEvents.filter(e => e.name !== 'CreatedOrderId');
+
+            expect(await parser.parseCreateInstructionsWithoutEvents(testEvents, instructions, mockTokensInfo, testTransaction)).toBeNull();
+            expect(await parser.parseCreateInstructionsWithoutEvents(eventsWithoutId, instructions, mockTokensInfo, testTransaction)).toBeNull();
+        });
+
+        it('should skip order that does not match giveOrderState', async () => {
+            const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const instructions = decodeInstructions(testTransaction).map(instruction => ({
+                ...instruction,
+                data: { ...instruction.data, nonce: new BN(1) }
+            }));
+
+            const result = await parser.parseCreateInstructionsWithoutEvents([], instructions, mockTokensInfo, testTransaction);
+
+            expect(result).toBeNull();
+            expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining("doesn't match its giveOrderState"));
+            expect(parser.lostOrders).toEqual(['give_order_state_mismatch']);
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should build created order with percent fee from config', async () => {
+            const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const instructions = decodeInstructions(testTransaction);
+
+            const result = await new OrderCreatedParser(srcProgramId, 5).parseCreateInstructionsWithoutEvents([], instructions, mockTokensInfo, testTransaction);
+
+            // The order of the fixture is created with 4 bps, so with 5 bps it doesn't match giveOrderState
+            expect(result).toBeNull();
+            expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining("doesn't match its giveOrderState"));
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should not count order with event as lost if it is built with another percent fee', async () => {
+            const instructions = decodeInstructions(testTransaction);
+            const otherFeeParser = new OrderCreatedParser(srcProgramId, 5);
+
+            const result = await otherFeeParser.parseCreateInstructionsWithoutEvents(testEvents, instructions, mockTokensInfo, testTransaction);
+
+            expect(result).toBeNull();
+            expect(otherFeeParser.lostOrders).toEqual([]);
+        });
+
+        it('should skip createOrder without nonce', async () => {
+            const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const instructions = decodeInstructions(testTransaction).map(instruction => ({ ...instruction, name: 'createOrder' }));
+
+            const result = await parser.parseCreateInstructionsWithoutEvents([], instructions, mockTokensInfo, testTransaction);
+
+            expect(result).toBeNull();
+            expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining("can't be restored without nonce"));
+            expect(parser.lostOrders).toEqual(['nonce_unknown']);
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should not count createOrder with event as lost', async () => {
+            const instructions = decodeInstructions(testTransaction).map(instruction => ({ ...instruction, name: 'createOrder' }));
+
+            const result = await parser.parseCreateInstructionsWithoutEvents(testEvents, instructions, mockTokensInfo, testTransaction);
+
+            expect(result).toBeNull();
+            expect(parser.lostOrders).toEqual([]);
+        });
+    });
+
     describe('_getAmountFromOrderEvent', () => {
-        it('should calculate amount correctly with given decimals', () => {
+        it('should return raw amount of the give token', () => {
             const orderEvent = testEvents.find(e => e.name === 'CreatedOrder');
             if (!orderEvent) {
                 return;
             }
 
-            const tokenInfo: TokenInfo = {
-                key: 'test',
-                symbol: 'USDC',
-                precision: 6
-            };
-            vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(tokenInfo);
-
-            const amount = parser._getAmountFromOrderEvent(orderEvent, 6);
+            const amount = parser._getAmountFromOrderEvent(orderEvent);
 
-            expect(typeof amount).toBe('number');
-            expect(amount).toBeGreaterThanOrEqual(0);
-            expect(amount).toBeCloseTo(101.314781, 5);
+            expect(amount).toBe('101314781');
         });
 
         it('should return 0 if giveAmountRaw is missing', () => {
@@ -144,49 +300,46 @@ describe('OrderCreatedParser', () => {
                 data: {}
             } as Event;
 
-            const amount = parser._getAmountFromOrderEvent(mockEvent, 6);
+            const amount = parser._getAmountFromOrderEvent(mockEvent);
 
-            expect(amount).toBe(0);
+            expect(amount).toBe('0');
         });
 
-        it('should handle different decimal precisions', () => {
-            const orderEvent = testEvents.find(e => e.name === 'CreatedOrder');
-            if (!orderEvent) {
-                return;
-            }
+        it('should keep amounts bigger than Number.MAX_SAFE_INTEGER', () => {
+            // 1234567.890123456789012345 of an 18-decimals token
+            const giveAmount = Buffer.from(BigInt('1234567890123456789012345').toString(16).padStart(64, '0'), 'hex');
+            const mockEvent: Event = {
+                name: 'CreatedOrder',
+                data: { order: { give: { amount: Array.from(giveAmount) } } }
+            } as Event;
 
-            const amount6 = parser._getAmountFromOrderEvent(orderEvent, 6);
-            const amount9 = parser._getAmountFromOrderEvent(orderEvent, 9);
+            const amount = parser._getAmountFromOrderEvent(mockEvent);
 
-            expect(typeof amount6).toBe('number');
-            expect(typeof amount9).toBe('number');
-            expect(amount6).not.toBe(amount9);
+            expect(amount).toBe('1234567890123456789012345');
         });
     });
 
     describe('_getFeeFromOrderEvent', () => {
-        it('should calculate percentFee correctly', () => {
+        it('should return raw percentFee', () => {
             const orderEvent = testEvents.find(e => e.name === 'CreatedOrder');
             if (!orderEvent) {
                 return;
             }
 
-            const percentFee = parser._getFeeFromOrderEvent(orderEvent, 'percentFee', 6);
+            const percentFee = parser._getFeeFromOrderEvent(orderEvent, 'percentFee');
 
-            expect(typeof percentFee).toBe('number');
-            expect(percentFee).toBeGreaterThanOrEqual(0);
+            expect(percentFee).toMatch(/^\d+$/);
         });
 
-        it('should calculate fixedFee correctly', () => {
-            const orderEvent = testEvents.find(e => e.name === 'CreatedOrder');
-            if (!orderEvent) {
-                return;
-            }
+        it('should return raw fixFee', () => {
+            const mockEvent: Event = {
+                name: 'CreatedOrder',
+                data: { fixFee: new BN('12345678901234567890') }
+            } as Event;
 
-            const fixedFee = parser._getFeeFromOrderEvent(orderEvent, 'fixedFee', 6);
+            const fixedFee = parser._getFeeFromOrderEvent(mockEvent, 'fixFee');
 
-            expect(typeof fixedFee).toBe('number');
-            expect(fixedFee).toBeGreaterThanOrEqual(0);
+            expect(fixedFee).toBe('12345678901234567890');
         });
 
         it('should return 0 if fee field is missing', () => {
@@ -195,22 +348,9 @@ describe('OrderCreatedParser', () => {
                 data: {}
             } as Event;
 
-            const fee = parser._getFeeFromOrderEvent(mockEvent, 'percentFee', 6);
-
-            expect(fee).toBe(0);
-        });
-
-        it('should handle different decimal precisions for fees', () => {
-            const orderEvent = testEvents.find(e => e.name === 'CreatedOrder');
-            if (!orderEvent) {
-                return;
-            }
-
-            const fee6 = parser._getFeeFromOrderEvent(orderEvent, 'percentFee', 6);
-            const fee9 = parser._getFeeFromOrderEvent(orderEvent, 'percentFee', 9);
+            const fee = parser._getFeeFromOrderEvent(mockEvent, 'percentFee');
 
-            expect(typeof fee6).toBe('number');
-            expect(typeof fee9).toBe('number');
+            expect(fee).toBe('0');
         });
     });
 
@@ -230,7 +370,7 @@ describe('OrderCreatedParser', () => {
 
             vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(mockTokenInfo);
 
-            const result = await parser._getTokenInfoFromOrderEvent(orderEvent, mockTokensInfo);
+            const result = await parser._getTokenInfoFromOrderEvent(orderEvent, mockTokensInfo, testTransaction);
 
             expect(result).not.toBeNull();
             expect(mockTokensInfo.getTokenInfo).toHaveBeenCalled();
@@ -242,7 +382,7 @@ describe('OrderCreatedParser', () => {
                 data: {}
             } as Event;
 
-            const result = await parser._getTokenInfoFromOrderEvent(mockEvent, mockTokensInfo);
+            const result = await parser._getTokenInfoFromOrderEvent(mockEvent, mockTokensInfo, testTransaction);
 
             expect(result).toBeNull();
             expect(mockTokensInfo.getTokenInfo).not.toHaveBeenCalled();
@@ -256,7 +396,7 @@ describe('OrderCreatedParser', () => {
                 }
             } as Event;
 
-            const result = await parser._getTokenInfoFromOrderEvent(mockEvent, mockTokensInfo);
+            const result = await parser._getTokenInfoFromOrderEvent(mockEvent, mockTokensInfo, testTransaction);
 
             expect(result).toBeNull();
         });
@@ -275,11 +415,51 @@ describe('OrderCreatedParser', () => {
 
             vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(null);
 
-            const result = await parser._getTokenInfoFromOrderEvent(mockEvent, mockTokensInfo);
+            const result = await parser._getTokenInfoFromOrderEvent(mockEvent, mockTokensInfo, testTransaction);
 
             // Should handle error and try alternative PublicKey creation
             expect(mockTokensInfo.getTokenInfo).toHaveBeenCalled();
         });
     });
+
+    describe('_getOrderDetailsFromOrderEvent', () => {
+        it('should extract full order from real transaction', () => {
+            const orderEvent = testEvents.find(e => e.name === 'CreatedOrder')!;
+
+            const details = parser._getOrderDetailsFromOrderEvent(orderEvent);
+
+            expect(details).toEqual({
+                makerOrderNonce: '1766061009649',
+                makerSrc: {
+                    hex: '093d47f6ca1724f3b473fe445b00adcddecf81c4351d6881bd81cb2996681665',
+                    base58: 'd4sGFnT4iidoEcwRfTdq8GVMWyYzvQubwdarUcEA76L'
+                },
+                giveChainId: '7565164',
+                giveTokenAddress: {
+                    hex: 'c6fa7af3bedbad3a3d65f36aabc97431b1bbe4c2d2f6e0e47ca60203452f5d61',
+                    base58: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+                },
+                giveAmount: '101314781',
+                takeChainId: '8453',
+                takeTokenAddress: { hex: '226a2fa2556c48245e57cd1cba4c6c9e67077dd2', base58: null },
+                takeAmount: '2356947117975226762943',
+                receiverDst: { hex: '37dc52b067ccfc42a980185d22806dacad42b903', base58: null },
+                givePatchAuthoritySrc: {
+                    hex: '093d47f6ca1724f3b473fe445b00adcddecf81c4351d6881bd81cb2996681665',
+                    base58: 'd4sGFnT4iidoEcwRfTdq8GVMWyYzvQubwdarUcEA76L'
+                },
+                orderAuthorityAddressDst: { hex: '37dc52b067ccfc42a980185d22806dacad42b903', base58: null },
+                allowedTakerDst: { hex: '555ce236c0220695b68341bc48c68d52210cc35b', base58: null },
+                allowedCancelBeneficiarySrc: null,
+                externalCallShortcut: null
+            });
+        });
+
+        it('should return null if order is missing', () => {
+            const mockEvent = { name: 'CreatedOrder', data: {} } as Event;
+
+            expect(parser._getOrderDetailsFromOrderEvent(mockEvent)).toBeNull();
+        });
+    });
 });
 
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { EventParser, BorshCoder, Event } from '@coral-xyz/anchor';
 import { Connection, PublicKey, ParsedTransactionWithMeta } from '@solana/web3.js';
 import { OrderFulfilledParser } from '../src/scrapper/order_fulfilled_parser';
+import { InstructionDecoder } from '../src/scrapper/instruction_decoder';
 import { TokensInfoCache } from '../src/infrastructure/tokens_info_cache';
 import { ParsedOrderFilled } from '../src/interfaces/scrapper_interfaces';
 import { TokenInfo } from '../src/interfaces/infrastructure_interfaces';
@@ -39,6 +40,7 @@ describe('OrderFulfilledParser', () => {
     let mockTokensInfo: TokensInfoCache;
     let testTransaction: ParsedTransactionWithMeta;
     let testEvents: Event[];
+    let dstDecoder: InstructionDecoder;
     const dstProgramID = new PublicKey('dst5MGcFPoBeREFAA5E3tU5ij8m5uVYwkzkSAbsLbNo');
 
     beforeEach(() => {
@@ -52,6 +54,7 @@ describe('OrderFulfilledParser', () => {
         // Load real transaction and parse events
         testTransaction = loadTransactionFromFile();
         testEvents = parseEventsFromTransaction(testTransaction);
+        dstDecoder = new InstructionDecoder(dstProgramID, IDL);
     });
 
     describe('constructor', () => {
@@ -78,7 +81,7 @@ describe('OrderFulfilledParser', () => {
 
             vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(mockTokenInfo);
 
-            const result = await parser.parseOrderFilledEvent(testEvents, mockTokensInfo, testTransaction);
+            const result = await parser.parseOrderFilledEvent(testEvents, dstDecoder.decodeTransaction(testTransaction), mockTokensInfo, testTransaction);
 
             expect(result).not.toBeNull();
             expect(Array.isArray(result)).toBe(true);
@@ -92,8 +95,11 @@ describe('OrderFulfilledParser', () => {
             
             // Check specific values for orderId, tokenKey and amount
             expect(order.orderId).toBe('76ef49d302f1c30f8b3b0e3f1b294b604c5245a7566c0b05c1279a525dfb703c');
+            expect(order.actor).toBe('2snHHreXbpJ7UwZxPe37gnUNf7Wx7wv6UKDSR2JckKuS');
             expect(order.tokenKey).toBe('So11111111111111111111111111111111111111112');
-            expect(order.amount).toBeCloseTo(3.919776213, 5);
+            expect(order.amount).toBe('3919776213');
+            expect(order.decimals).toBe(9);
+            expect(order.extractionMethod).toBe('transfer');
         });
 
         it('should parse order filled event from SPL token transaction', async () => {
@@ -109,7 +115,7 @@ describe('OrderFulfilledParser', () => {
 
             vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(mockTokenInfo);
 
-            const result = await parser.parseOrderFilledEvent(testEvents2, mockTokensInfo, testTransaction2);
+            const result = await parser.parseOrderFilledEvent(testEvents2, dstDecoder.decodeTransaction(testTransaction2), mockTokensInfo, testTransaction2);
 
             expect(result).not.toBeNull();
             expect(Array.isArray(result)).toBe(true);
@@ -125,20 +131,20 @@ describe('OrderFulfilledParser', () => {
             // Parser correctly selects SOL transfer with 808590964 lamports = 0.808590964 SOL
             expect(order.orderId).toBe('063d9ddfcb55a466c470295188d0b75e62675de8af039f1175fa433d21f7ef0d');
             expect(order.tokenKey).toBe('So11111111111111111111111111111111111111112');
-            expect(order.amount).toBeCloseTo(0.808590964, 5);
+            expect(order.amount).toBe('808590964');
+            expect(order.decimals).toBe(9);
         });
 
         it('should return null if Fulfilled events are missing', async () => {
             const emptyEvents: Event[] = [];
 
-            const result = await parser.parseOrderFilledEvent(emptyEvents, mockTokensInfo, testTransaction);
+            const result = await parser.parseOrderFilledEvent(emptyEvents, dstDecoder.decodeTransaction(testTransaction), mockTokensInfo, testTransaction);
 
             expect(result).toBeNull();
         });
 
-        it('should return null if fulfilled events inst indexes mismatch', async () => {
-            // Create a transaction where fulfilledEventsInstIndexes.length !== fulfilledEventsIDs.length
-            // Remove FulfillOrder from logMessages so indexes will be empty but events will have IDs
+        it('should parse fill without FulfillOrder in logs', async () => {
+            // Truncated logs don't matter, fulfillOrder is found by the order ID argument
             const modifiedTransaction = {
                 ...testTransaction,
                 meta: {
@@ -147,11 +153,42 @@ describe('OrderFulfilledParser', () => {
                 }
             } as ParsedTransactionWithMeta;
 
-            const result = await parser.parseOrderFilledEvent(testEvents, mockTokensInfo, modifiedTransaction);
+            const result = await parser.parseOrderFilledEvent(testEvents, dstDecoder.decodeTransaction(modifiedTransaction), mockTokensInfo, modifiedTransaction);
 
-            // Parser returns null when indexes mismatch (fulfilledEventsInstIndexes.length !== fulfilledEventsIDs.length)
-            // fulfilledEventsInstIndexes will be [] (no FulfillOrder in logs) but fulfilledEventsIDs will have items from testEvents
-            expect(result).toBeNull();
+            expect(result).toHaveLength(1);
+            expect(result![0]).toMatchObject({
+                orderId: '76ef49d302f1c30f8b3b0e3f1b294b604c5245a7566c0b05c1279a525dfb703c',
+                amount: '3919776213',
+                decimals: 9,
+                tokenKey: 'So11111111111111111111111111111111111111112',
+                extractionMethod: 'transfer'
+            });
+        });
+
+        it('should parse fill called by another program', async () => {
+            // The same fill wrapped by a router: fulfillOrder becomes the first inner instruction of the router call
+            const routerTransaction = JSON.parse(JSON.stringify(testTransaction));
+            const fulfillInstruction = routerTransaction.transaction.message.instructions[1];
+            routerTransaction.transaction.message.instructions[1] = {
+                programId: PublicKey.unique().toString(),
+                accounts: [],
+                data: '1'
+            };
+            routerTransaction.meta.innerInstructions[0].instructions.unshift({ ...fulfillInstruction, stackHeight: 2 });
+
+            const result = await parser.parseOrderFilledEvent(testEvents, dstDecoder.decodeTransaction(routerTransaction), mockTokensInfo, routerTransaction);
+
+            expect(result).toHaveLength(1);
+            expect(result![0]).toMatchObject({
+                amount: '3919776213',
+                extractionMethod: 'transfer'
+            });
+        });
+
+        it('should skip order without fulfillOrder instruction', async () => {
+            const result = await parser.parseOrderFilledEvent(testEvents, [], mockTokensInfo, testTransaction);
+
+            expect(result).toEqual([]);
         });
 
         it('should handle missing transfer inner instruction gracefully', async () => {
@@ -165,8 +202,7 @@ describe('OrderFulfilledParser', () => {
             vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(mockTokenInfo);
 
             // Create transaction where inner instructions don't have transfer instructions
-            // This will cause _getTransferInnerInstruction to return null, and parser will skip that order
-            // but continue processing, returning an empty array if no valid orders found
+            // This will cause _getTransferInnerInstruction to return null, and parser will use balances
             const modifiedTransaction = {
                 ...testTransaction,
                 meta: {
@@ -183,17 +219,18 @@ describe('OrderFulfilledParser', () => {
                 }
             } as ParsedTransactionWithMeta;
 
-            const result = await parser.parseOrderFilledEvent(testEvents, mockTokensInfo, modifiedTransaction);
+            const result = await parser.parseOrderFilledEvent(testEvents, dstDecoder.decodeTransaction(testTransaction), mockTokensInfo, modifiedTransaction);
 
-            // Parser continues processing and skips orders without transfer instructions
-            // Returns empty array if no valid orders found
-            expect(result).toEqual([]);
+            // Parser takes the amount from the balance change of receiverDst
+            expect(result).toHaveLength(1);
+            expect(result![0].amount).toBe('3919776213');
+            expect(result![0].extractionMethod).toBe('balance_delta');
         });
 
         it('should handle missing token info gracefully', async () => {
             vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(null);
 
-            const result = await parser.parseOrderFilledEvent(testEvents, mockTokensInfo, testTransaction);
+            const result = await parser.parseOrderFilledEvent(testEvents, dstDecoder.decodeTransaction(testTransaction), mockTokensInfo, testTransaction);
 
             // Parser continues processing even if token info is missing (uses default values)
             // So it returns an array, not null
@@ -202,8 +239,32 @@ describe('OrderFulfilledParser', () => {
         });
     });
 
+    describe('parseFulfillInstructionsWithoutEvents', () => {
+        it('should recover fill from fulfillOrder if Fulfilled event is truncated', async () => {
+            const result = await parser.parseFulfillInstructionsWithoutEvents([], dstDecoder.decodeTransaction(testTransaction), mockTokensInfo, testTransaction);
+
+            expect(result).toEqual([{
+                orderId: '76ef49d302f1c30f8b3b0e3f1b294b604c5245a7566c0b05c1279a525dfb703c',
+                amount: '3919776213',
+                decimals: 9,
+                status: 'filled',
+                tokenKey: 'So11111111111111111111111111111111111111112',
+                tokenSymbol: 'SOL',
+                actor: '2snHHreXbpJ7UwZxPe37gnUNf7Wx7wv6UKDSR2JckKuS',
+                extractionMethod: 'transfer',
+                dataQualityFlags: ['instruction_fallback']
+            }]);
+        });
+
+        it('should return null if all fills have events', async () => {
+            const result = await parser.parseFulfillInstructionsWithoutEvents(testEvents, dstDecoder.decodeTransaction(testTransaction), mockTokensInfo, testTransaction);
+
+            expect(result).toBeNull();
+        });
+    });
+
     describe('_getAmountFromInstruction', () => {
-        it('should calculate amount correctly for SOL transfer', () => {
+        it('should return raw lamports for SOL transfer', () => {
             const mockInstruction = {
                 programId: new PublicKey('11111111111111111111111111111111'),
                 parsed: {
@@ -213,18 +274,12 @@ describe('OrderFulfilledParser', () => {
                 }
             } as any;
 
-            const tokenInfo: TokenInfo = {
-                key: 'So11111111111111111111111111111111111111112',
-                symbol: 'SOL',
-                precision: 9
-            };
+            const amount = parser._getAmountFromInstruction(mockInstruction);
 
-            const amount = parser._getAmountFromInstruction(mockInstruction, tokenInfo);
-
-            expect(amount).toBeCloseTo(3.919776213, 5);
+            expect(amount).toBe('3919776213');
         });
 
-        it('should calculate amount correctly for SPL token transfer', () => {
+        it('should return raw amount for SPL token transfer', () => {
             const mockInstruction = {
                 programId: new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'),
                 program: 'spl-token',
@@ -237,15 +292,27 @@ describe('OrderFulfilledParser', () => {
                 }
             } as any;
 
-            const tokenInfo: TokenInfo = {
-                key: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
-                symbol: 'USDC',
-                precision: 6
-            };
+            const amount = parser._getAmountFromInstruction(mockInstruction);
+
+            expect(amount).toBe('1000000');
+        });
+
+        it('should return raw amount without withheld fee for Token-2022 transfer with fee', () => {
+            const mockInstruction = {
+                programId: new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb'),
+                program: 'spl-token-2022',
+                parsed: {
+                    type: 'transferCheckedWithFee',
+                    info: {
+                        tokenAmount: { amount: '2500000', decimals: 6 },
+                        feeAmount: { amount: '2500', decimals: 6 }
+                    }
+                }
+            } as any;
 
-            const amount = parser._getAmountFromInstruction(mockInstruction, tokenInfo);
+            const amount = parser._getAmountFromInstruction(mockInstruction);
 
-            expect(amount).toBeCloseTo(1.0, 5);
+            expect(amount).toBe('2497500');
         });
 
         it('should return 0 if parsedData is missing', () => {
@@ -254,15 +321,9 @@ describe('OrderFulfilledParser', () => {
                 parsed: null
             } as any;
 
-            const tokenInfo: TokenInfo = {
-                key: 'test',
-                symbol: 'TEST',
-                precision: 6
-            };
-
-            const amount = parser._getAmountFromInstruction(mockInstruction, tokenInfo);
+            const amount = parser._getAmountFromInstruction(mockInstruction);
 
-            expect(amount).toBe(0);
+            expect(amount).toBe('0');
         });
 
         it('should return 0 for unknown program', () => {
@@ -276,37 +337,141 @@ describe('OrderFulfilledParser', () => {
                 }
             } as any;
 
-            const tokenInfo: TokenInfo = {
-                key: 'test',
-                symbol: 'TEST',
-                precision: 6
-            };
+            const amount = parser._getAmountFromInstruction(mockInstruction);
+
+            expect(amount).toBe('0');
+        });
+    });
+
+    describe('_getFilledAmountFromTransfer', () => {
+        const taker = PublicKey.unique().toString();
+        const destination = PublicKey.unique().toString();
+        const mint = PublicKey.unique().toString();
+        const fulfillInstruction = { name: 'fulfillOrder', data: {}, accounts: { taker: taker, takerWallet: taker }, remainingAccounts: [], instIndex: 0, innerIndex: null };
+
+        function buildToken2022Transaction(type: string, info: any, preAmount: string, postAmount: string): ParsedTransactionWithMeta {
+            return {
+                transaction: { signatures: ['token_2022_signature'], message: { accountKeys: [{ pubkey: new PublicKey(destination) }] } },
+                meta: {
+                    innerInstructions: [{
+                        index: 0,
+                        instructions: [{
+                            programId: new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb'),
+                            program: 'spl-token-2022',
+                            parsed: { type: type, info: { source: taker, destination: destination, ...info } }
+                        }]
+                    }],
+                    preTokenBalances: [{ accountIndex: 0, mint: mint, uiTokenAmount: { amount: preAmount, decimals: 6 } }],
+                    postTokenBalances: [{ accountIndex: 0, mint: mint, uiTokenAmount: { amount: postAmount, decimals: 6 } }]
+                }
+            } as any;
+        }
+
+        it('should take received amount from balance of destination for transferChecked on fee mint', async () => {
+            const transaction = buildToken2022Transaction('transferChecked', { mint: mint, tokenAmount: { amount: '2500000', decimals: 6 } }, '100', '2497600');
+            vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(null);
+
+            const result = await parser._getFilledAmountFromTransfer(fulfillInstruction, mockTokensInfo, transaction);
+
+            expect(result).toEqual({
+                amount: '2497500',
+                tokenInfo: { key: mint, symbol: mint, precision: 6 },
+                extractionMethod: 'transfer'
+            });
+        });
+
+        it('should take received amount from balance of destination for plain transfer on fee mint', async () => {
+            const transaction = buildToken2022Transaction('transfer', { amount: '2500000' }, '0', '2497500');
+            vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(null);
+
+            const result = await parser._getFilledAmountFromTransfer(fulfillInstruction, mockTokensInfo, transaction);
+
+            expect(result?.amount).toBe('2497500');
+        });
+
+        it('should use transfer amount if destination gets more than the transfer', async () => {
+            const transaction = buildToken2022Transaction('transferChecked', { mint: mint, tokenAmount: { amount: '2500000', decimals: 6 } }, '0', '5000000');
+            vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(null);
 
-            const amount = parser._getAmountFromInstruction(mockInstruction, tokenInfo);
+            const result = await parser._getFilledAmountFromTransfer(fulfillInstruction, mockTokensInfo, transaction);
 
-            expect(amount).toBe(0);
+            expect(result?.amount).toBe('2500000');
         });
     });
 
-    describe('_getTransferInnerInstruction', () => {
-        it('should find transfer instruction in inner instructions', () => {
-            const instIndex = 1;
-            const instruction = parser._getTransferInnerInstruction(testTransaction, instIndex);
+    describe('_getFilledAmountFromBalances', () => {
+        const orderId = '76ef49d302f1c30f8b3b0e3f1b294b604c5245a7566c0b05c1279a525dfb703c';
 
-            expect(instruction).not.toBeNull();
-            expect(instruction?.parsed?.type).toBe('transfer');
+        function buildBalancesTransaction(receivers: string[], meta: any): ParsedTransactionWithMeta {
+            return {
+                transaction: { signatures: ['balances_signature'], message: { accountKeys: receivers.map(receiver => ({ pubkey: new PublicKey(receiver) })) } },
+                meta: meta
+            } as any;
+        }
+
+        function buildFulfillInstruction(receiver: string, fulfilledOrderId: string = orderId): any {
+            return { name: 'fulfillOrder', data: { orderId: Array.from(Buffer.from(fulfilledOrderId, 'hex')) }, accounts: { receiverDst: receiver } };
+        }
+
+        it('should take amount and mint from token balances of receiver', async () => {
+            const receiver = PublicKey.unique().toString();
+            const mint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+            const transaction = buildBalancesTransaction([receiver], {
+                preTokenBalances: [{ accountIndex: 0, mint: mint, uiTokenAmount: { amount: '1', decimals: 6 } }],
+                postTokenBalances: [{ accountIndex: 0, mint: mint, uiTokenAmount: { amount: '101314781000000000001', decimals: 6 } }]
+            });
+            vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(null);
+
+            const result = await parser._getFilledAmountFromBalances(buildFulfillInstruction(receiver), [buildFulfillInstruction(receiver)], mockTokensInfo, transaction);
+
+            expect(result).toEqual({
+                amount: '101314781000000000000',
+                tokenInfo: { key: mint, symbol: mint, precision: 6 },
+                extractionMethod: 'balance_delta'
+            });
         });
 
-        it('should return null if inner instruction not found', () => {
-            const instIndex = 999;
-            const instruction = parser._getTransferInnerInstruction(testTransaction, instIndex);
+        it('should count new token account of receiver from zero', async () => {
+            const receiver = PublicKey.unique().toString();
+            const mint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+            const transaction = buildBalancesTransaction([receiver], {
+                preTokenBalances: [],
+                postTokenBalances: [{ accountIndex: 0, mint: mint, uiTokenAmount: { amount: '2500000', decimals: 6 } }]
+            });
+            vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue({ key: mint, symbol: 'USDC', precision: 6 });
 
-            expect(instruction).toBeNull();
+            const result = await parser._getFilledAmountFromBalances(buildFulfillInstruction(receiver), [buildFulfillInstruction(receiver)], mockTokensInfo, transaction);
+
+            expect(result?.amount).toBe('2500000');
+            expect(result?.tokenInfo.symbol).toBe('USDC');
         });
 
-        it('should find transferChecked instruction', () => {
-            // Create mock transaction with transferChecked
-            const mockTransaction = {
+        it('should return null if receiver gets several fills', async () => {
+            const receiver = PublicKey.unique().toString();
+            const transaction = buildBalancesTransaction([receiver], { preBalances: [0], postBalances: [2000000000] });
+            const instructions = [buildFulfillInstruction(receiver), buildFulfillInstruction(receiver, '291438b251464b56304ffab86e7690385fbcdcc8d046ead858853446bad5e3b0')];
+
+            const result = await parser._getFilledAmountFromBalances(instructions[0], instructions, mockTokensInfo, transaction);
+
+            expect(result).toBeNull();
+        });
+
+        it('should return null if balance of receiver does not grow', async () => {
+            const receiver = PublicKey.unique().toString();
+            const transaction = buildBalancesTransaction([receiver], { preBalances: [2000000000], postBalances: [2000000000] });
+
+            const result = await parser._getFilledAmountFromBalances(buildFulfillInstruction(receiver), [buildFulfillInstruction(receiver)], mockTokensInfo, transaction);
+
+            expect(result).toBeNull();
+        });
+    });
+
+    describe('_getTransferInnerInstruction', () => {
+        const taker = '2snHHreXbpJ7UwZxPe37gnUNf7Wx7wv6UKDSR2JckKuS';
+        const fulfillInstruction = { name: 'fulfillOrder', data: {}, accounts: { taker: taker, takerWallet: taker }, remainingAccounts: [], instIndex: 1, innerIndex: null };
+
+        function buildTransferTransaction(type: string, source: string = taker): ParsedTransactionWithMeta {
+            return {
                 ...testTransaction,
                 meta: {
                     ...testTransaction.meta,
@@ -314,41 +479,48 @@ describe('OrderFulfilledParser', () => {
                         index: 1,
                         instructions: [{
                             parsed: {
-                                type: 'transferChecked',
-                                info: {}
+                                type: type,
+                                info: { source: source }
                             }
                         }]
                     }]
                 }
             } as ParsedTransactionWithMeta;
+        }
+
+        it('should find transfer instruction in inner instructions', () => {
+            const decodedFulfillInstruction = dstDecoder.decodeTransaction(testTransaction).find(instruction => instruction.name === 'fulfillOrder')!;
 
-            const instruction = parser._getTransferInnerInstruction(mockTransaction, 1);
+            const instruction = parser._getTransferInnerInstruction(testTransaction, decodedFulfillInstruction);
 
             expect(instruction).not.toBeNull();
-            expect(instruction?.parsed?.type).toBe('transferChecked');
+            expect(instruction?.parsed?.type).toBe('transfer');
+            expect(instruction?.parsed?.info.lamports).toBe(3919776213);
         });
-    });
 
-    describe('_getFulfilledEventsInstIndexes', () => {
-        it('should find fulfilled events instruction indexes', () => {
-            const indexes = parser._getFulfilledEventsInstIndexes(testTransaction, dstProgramID, 'FulfillOrder');
+        it('should return null if inner instruction not found', () => {
+            const instruction = parser._getTransferInnerInstruction(testTransaction, { ...fulfillInstruction, instIndex: 999 });
 
-            expect(Array.isArray(indexes)).toBe(true);
-            expect(indexes.length).toBeGreaterThan(0);
+            expect(instruction).toBeNull();
         });
 
-        it('should return empty array if no fulfilled events found', () => {
-            const mockTransaction = {
-                ...testTransaction,
-                meta: {
-                    ...testTransaction.meta,
-                    logMessages: []
-                }
-            } as ParsedTransactionWithMeta;
+        it('should find transferChecked instruction', () => {
+            const instruction = parser._getTransferInnerInstruction(buildTransferTransaction('transferChecked'), fulfillInstruction);
 
-            const indexes = parser._getFulfilledEventsInstIndexes(mockTransaction, dstProgramID, 'FulfillOrder');
+            expect(instruction).not.toBeNull();
+            expect(instruction?.parsed?.type).toBe('transferChecked');
+        });
+
+        it('should find Token-2022 transferCheckedWithFee instruction', () => {
+            const instruction = parser._getTransferInnerInstruction(buildTransferTransaction('transferCheckedWithFee'), fulfillInstruction);
+
+            expect(instruction?.parsed?.type).toBe('transferCheckedWithFee');
+        });
+
+        it('should skip transfers not from the taker', () => {
+            const instruction = parser._getTransferInnerInstruction(buildTransferTransaction('transfer', PublicKey.unique().toString()), fulfillInstruction);
 
-            expect(indexes).toEqual([]);
+            expect(instruction).toBeNull();
         });
     });
 
@@ -367,7 +539,7 @@ describe('OrderFulfilledParser', () => {
 
             vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(mockTokenInfo);
 
-            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo);
+            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo, testTransaction);
 
             expect(result).not.toBeNull();
             expect(result?.symbol).toBe('SOL');
@@ -381,7 +553,7 @@ describe('OrderFulfilledParser', () => {
 
             vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(null);
 
-            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo);
+            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo, testTransaction);
 
             expect(result).not.toBeNull();
             expect(result?.symbol).toBe('SOL');
@@ -407,33 +579,53 @@ describe('OrderFulfilledParser', () => {
 
             vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(mockTokenInfo);
 
-            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo);
+            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo, testTransaction);
 
             expect(result).not.toBeNull();
             expect(result?.symbol).toBe('USDC');
             expect(result?.key).toBe(tokenPublicKey.toString());
         });
 
-        it('should return default token info for SPL token if cache returns null', async () => {
+        it('should take decimals from transferChecked for SPL token if cache returns null', async () => {
             const tokenPublicKey = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
             const mockInstruction = {
                 programId: new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'),
                 program: 'spl-token',
                 parsed: {
                     info: {
-                        mint: tokenPublicKey.toString()
+                        mint: tokenPublicKey.toString(),
+                        tokenAmount: { amount: '1000000', decimals: 8 }
                     }
                 }
             } as any;
 
             vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(null);
 
-            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo);
+            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo, testTransaction);
 
             expect(result).not.toBeNull();
             expect(result?.key).toBe(tokenPublicKey.toString());
             expect(result?.symbol).toBe(tokenPublicKey.toString());
-            expect(result?.precision).toBe(6);
+            expect(result?.precision).toBe(8);
+        });
+
+        it('should return null for SPL token without decimals in transaction if cache returns null', async () => {
+            const tokenPublicKey = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+            const mockInstruction = {
+                programId: new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'),
+                program: 'spl-token',
+                parsed: {
+                    info: {
+                        mint: tokenPublicKey.toString()
+                    }
+                }
+            } as any;
+
+            vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(null);
+
+            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo, testTransaction);
+
+            expect(result).toBeNull();
         });
 
         it('should return null if info is missing for SPL token', async () => {
@@ -443,9 +635,76 @@ describe('OrderFulfilledParser', () => {
                 parsed: null
             } as any;
 
-            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo);
+            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo, testTransaction);
+
+            expect(result).toBeNull();
+        });
+
+        it('should resolve mint of plain transfer from token balances', async () => {
+            const mint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+            const source = PublicKey.unique().toString();
+            const destination = PublicKey.unique().toString();
+            const mockTransaction = {
+                transaction: { message: { accountKeys: [source, destination].map(account => ({ pubkey: new PublicKey(account) })) } },
+                meta: { postTokenBalances: [{ accountIndex: 1, mint: mint, uiTokenAmount: { amount: '1000000', decimals: 6 } }] }
+            } as any;
+            const mockInstruction = {
+                programId: new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'),
+                program: 'spl-token',
+                parsed: { type: 'transfer', info: { source: source, destination: destination, amount: '1000000' } }
+            } as any;
+            vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue({ key: mint, symbol: 'USDC', precision: 6 });
+
+            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo, mockTransaction);
+
+            expect(result?.key).toBe(mint);
+            expect(mockTokensInfo.getTokenInfo).toHaveBeenCalledWith(new PublicKey(mint));
+        });
+
+        it('should resolve mint of closed source account from pre token balances', async () => {
+            const mint = PublicKey.unique().toString();
+            const source = PublicKey.unique().toString();
+            const mockTransaction = {
+                transaction: { message: { accountKeys: [{ pubkey: new PublicKey(source) }] } },
+                meta: { postTokenBalances: [], preTokenBalances: [{ accountIndex: 0, mint: mint, uiTokenAmount: { amount: '5', decimals: 9 } }] }
+            } as any;
+            const mockInstruction = {
+                programId: new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb'),
+                program: 'spl-token-2022',
+                parsed: { type: 'transfer', info: { source: source, destination: PublicKey.unique().toString(), amount: '5' } }
+            } as any;
+            vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(null);
+
+            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo, mockTransaction);
+
+            expect(result).toEqual({ key: mint, symbol: mint, precision: 9 });
+        });
+
+        it('should return token info for Token-2022 transferChecked', async () => {
+            const mint = PublicKey.unique().toString();
+            const mockInstruction = {
+                programId: new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb'),
+                program: 'spl-token-2022',
+                parsed: { type: 'transferCheckedWithFee', info: { mint: mint, tokenAmount: { amount: '5', decimals: 8 } } }
+            } as any;
+            vi.mocked(mockTokensInfo.getTokenInfo).mockResolvedValue(null);
+
+            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo, testTransaction);
+
+            expect(result).toEqual({ key: mint, symbol: mint, precision: 8 });
+        });
+
+        it('should return null if mint of plain transfer is not found', async () => {
+            const mockInstruction = {
+                programId: new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'),
+                program: 'spl-token',
+                parsed: { type: 'transfer', info: { source: PublicKey.unique().toString(), destination: PublicKey.unique().toString(), amount: '5' } }
+            } as any;
+
+            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo, testTransaction);
 
             expect(result).toBeNull();
+            expect(mockTokensInfo.getTokenInfo).not.toHaveBeenCalled();
         });
 
         it('should return null for unknown program', async () => {
@@ -456,7 +715,7 @@ describe('OrderFulfilledParser', () => {
                 }
             } as any;
 
-            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo);
+            const result = await parser._getTokenInfoFromInstruction(mockInstruction, mockTokensInfo, testTransaction);
 
             expect(result).toBeNull();
         });
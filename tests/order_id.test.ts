@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { BorshCoder, EventParser, Event } from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import { encodeOrder, getOrderId } from '../src/scrapper/order_id';
+import { IDL as DlnSrcIdl } from '../src/idl/src';
+import { IDL as DlnDstIdl } from '../src/idl/dst';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const testDataDir = path.join(__dirname, 'tests_data');
+const createdTransactionFile = path.join(testDataDir, 'tx_2zhQdZCFiVUxk2wrGE9ukNPtDca9Vy9z1HG6cnYauh4S54mNdBQ7TMSLXasmV5Bv2VbR1QqEY1ewLRf3nCgdLqLc.json');
+const fulfillTransactionFile = path.join(testDataDir, 'tx_3qQSDktLZrvPd2QMEkBtxJmpE1jJeHE88Nzws3rgZAmmzTpa46RaWh4bkfXStXDKCprZd8NAYct8qMnBDQn3MC77.json');
+const dstProgramID = 'dst5MGcFPoBeREFAA5E3tU5ij8m5uVYwkzkSAbsLbNo';
+
+function loadCreatedOrder(): any {
+    const transaction = JSON.parse(fs.readFileSync(createdTransactionFile, 'utf-8'));
+    const eventParser = new EventParser(new PublicKey('src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4'), new BorshCoder(DlnSrcIdl));
+    const events: Event[] = Array.from(eventParser.parseLogs(transaction.meta.logMessages));
+    return (events.find(event => event.name === 'CreatedOrder')!.data as any).order;
+}
+
+function loadFulfilledOrder(): any {
+    const transaction = JSON.parse(fs.readFileSync(fulfillTransactionFile, 'utf-8'));
+    const fulfillInstruction = transaction.transaction.message.instructions.find((instruction: any) => instruction.programId === dstProgramID);
+    return (new BorshCoder(DlnDstIdl).instruction.decode(fulfillInstruction.data, 'base58') as any).data.unvalidatedOrder;
+}
+
+describe('order_id', () => {
+    describe('getOrderId', () => {
+        it('should derive ID of the created order', () => {
+            expect(getOrderId(loadCreatedOrder())).toBe('291438b251464b56304ffab86e7690385fbcdcc8d046ead858853446bad5e3b0');
+        });
+
+        it('should derive ID of the order from fulfillOrder', () => {
+            expect(getOrderId(loadFulfilledOrder())).toBe('76ef49d302f1c30f8b3b0e3f1b294b604c5245a7566c0b05c1279a525dfb703c');
+        });
+
+        it('should change ID if the order is changed', () => {
+            const order = loadCreatedOrder();
+            order.makerOrderNonce = order.makerOrderNonce.addn(1);
+
+            expect(getOrderId(order)).not.toBe('291438b251464b56304ffab86e7690385fbcdcc8d046ead858853446bad5e3b0');
+        });
+    });
+
+    describe('encodeOrder', () => {
+        it('should pack missing optional fields as empty', () => {
+            const order = loadCreatedOrder();
+
+            const encoded = encodeOrder(order);
+
+            // allowedCancelBeneficiarySrc has zero length and externalCall has no flag
+            expect(encoded.subarray(-2).toString('hex')).toBe('0000');
+        });
+
+        it('should pack external call shortcut with flag', () => {
+            const order = loadCreatedOrder();
+            const shortcut = Buffer.alloc(32, 7);
+            order.externalCall = { externalCallShortcut: Array.from(shortcut) };
+
+            const encoded = encodeOrder(order);
+
+            expect(encoded.subarray(-33).toString('hex')).toBe('01' + shortcut.toString('hex'));
+        });
+
+        it('should throw error if address is too long', () => {
+            const order = loadCreatedOrder();
+            order.makerSrc = Buffer.alloc(256);
+
+            expect(() => encodeOrder(order)).toThrow('Wrong address length: 256');
+        });
+    });
+});
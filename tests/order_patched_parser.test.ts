@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BN, BorshCoder, Event, utils } from '@coral-xyz/anchor';
+import { PublicKey, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { OrderPatchedParser } from '../src/scrapper/order_patched_parser';
+import { InstructionDecoder } from '../src/scrapper/instruction_decoder';
+import { TokensInfoCache } from '../src/infrastructure/tokens_info_cache';
+import { TokenInfo } from '../src/interfaces/infrastructure_interfaces';
+import { IDL as DlnSrcIdl } from '../src/idl/src';
+import { IDL as DlnDstIdl } from '../src/idl/dst';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const testDataDir = path.join(__dirname, 'tests_data');
+const fulfillTransactionFile = path.join(testDataDir, 'tx_3qQSDktLZrvPd2QMEkBtxJmpE1jJeHE88Nzws3rgZAmmzTpa46RaWh4bkfXStXDKCprZd8NAYct8qMnBDQn3MC77.json');
+
+const srcProgramID = new PublicKey('src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4');
+const dstProgramID = new PublicKey('dst5MGcFPoBeREFAA5E3tU5ij8m5uVYwkzkSAbsLbNo');
+const giveOrderId = '291438b251464b56304ffab86e7690385fbcdcc8d046ead858853446bad5e3b0';
+const takeOrderId = '76ef49d302f1c30f8b3b0e3f1b294b604c5245a7566c0b05c1279a525dfb703c';
+const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const giveOrderWallet = PublicKey.unique().toString();
+const patcher = PublicKey.unique().toString();
+
+function buildTransaction(programId: PublicKey, accounts: string[], data: Buffer, meta: any = {}): ParsedTransactionWithMeta {
+    return {
+        blockTime: 1766061057,
+        slot: 390000000,
+        transaction: {
+            signatures: ['patch_signature'],
+            message: {
+                accountKeys: accounts.map(account => ({ pubkey: new PublicKey(account), signer: false, writable: true })),
+                instructions: [{
+                    programId: programId.toString(),
+                    accounts: accounts,
+                    data: utils.bytes.bs58.encode(data)
+                }]
+            }
+        },
+        meta: {
+            logMessages: [],
+            innerInstructions: [],
+            ...meta
+        }
+    } as any;
+}
+
+function buildGivePatchTransaction(patchOrderId: string = giveOrderId): ParsedTransactionWithMeta {
+    const coder = new BorshCoder(DlnSrcIdl);
+    const [giveOrderState] = PublicKey.findProgramAddressSync([Buffer.from('GIVE_ORDER_STATE'), Buffer.from(giveOrderId, 'hex')], srcProgramID);
+    const idlInstruction = DlnSrcIdl.instructions.find(instruction => instruction.name === 'patchOrderGive')!;
+    const accounts = idlInstruction.accounts.map(account => {
+        switch (account.name) {
+            case 'giveOrderState': return giveOrderState.toString();
+            case 'giveOrderWallet': return giveOrderWallet;
+            case 'givePatchAuthority': return patcher;
+            default: return PublicKey.unique().toString();
+        }
+    });
+    const data = coder.instruction.encode('patchOrderGive', {
+        orderId: Array.from(Buffer.from(patchOrderId, 'hex')),
+        inputAdditionToGiveAmount: new BN(5000000)
+    });
+    return buildTransaction(srcProgramID, accounts, data, {
+        postTokenBalances: [{
+            accountIndex: accounts.indexOf(giveOrderWallet),
+            mint: usdcMint,
+            uiTokenAmount: { amount: '105000000', decimals: 6 }
+        }]
+    });
+}
+
+function buildTakePatchTransaction(): ParsedTransactionWithMeta {
+    // Order is taken from the fulfill transaction of the same order
+    const coder = new BorshCoder(DlnDstIdl);
+    const fulfillTransaction = JSON.parse(fs.readFileSync(fulfillTransactionFile, 'utf-8'));
+    const fulfillInstruction = fulfillTransaction.transaction.message.instructions.find((instruction: any) => instruction.programId === dstProgramID.toString());
+    const order = (coder.instruction.decode(fulfillInstruction.data, 'base58') as any).data.unvalidatedOrder;
+    const idlInstruction = DlnDstIdl.instructions.find(instruction => instruction.name === 'patchTakeOrder')!;
+    const accounts = idlInstruction.accounts.map(account => account.name === 'patcher' ? patcher : PublicKey.unique().toString());
+    const data = coder.instruction.encode('patchTakeOrder', {
+        unvalidatedOrder: order,
+        orderId: Array.from(Buffer.from(takeOrderId, 'hex')),
+        newSubtrahend: new BN(1000000000)
+    });
+    return buildTransaction(dstProgramID, accounts, data);
+}
+
+describe('OrderPatchedParser', () => {
+    let parser: OrderPatchedParser;
+    let srcDecoder: InstructionDecoder;
+    let dstDecoder: InstructionDecoder;
+    let mockTokensInfo: TokensInfoCache;
+    const usdcTokenInfo: TokenInfo = { key: usdcMint, symbol: 'USDC', precision: 6 };
+    const solTokenInfo: TokenInfo = { key: 'So11111111111111111111111111111111111111112', symbol: 'SOL', precision: 9 };
+    const increasedGiveAmountEvent = {
+        name: 'IncreasedGiveAmount',
+        data: { orderGiveFinalAmount: new BN(105000000), finalPercentFee: new BN(42000) }
+    } as Event;
+    const decreaseTakeAmountEvent = {
+        name: 'DecreaseTakeAmount',
+        data: { orderId: Array.from(Buffer.from(takeOrderId, 'hex')), orderTakeFinalAmount: new BN(2919776213) }
+    } as Event;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        parser = new OrderPatchedParser(srcProgramID);
+        srcDecoder = new InstructionDecoder(srcProgramID, DlnSrcIdl);
+        dstDecoder = new InstructionDecoder(dstProgramID, DlnDstIdl);
+        mockTokensInfo = {
+            getTokenInfo: vi.fn().mockImplementation(async (tokenPublicKey: PublicKey) => tokenPublicKey.toString() === usdcMint ? usdcTokenInfo : solTokenInfo)
+        } as any;
+    });
+
+    describe('constructor', () => {
+        it('should throw error if srcProgramID is null', () => {
+            expect(() => {
+                new OrderPatchedParser(null as any);
+            }).toThrow('DLN_SRC_PROGRAM_ID is not set');
+        });
+    });
+
+    describe('parseGivePatchEvent', () => {
+        it('should parse final give amount and percent fee', async () => {
+            const transaction = buildGivePatchTransaction();
+
+            const result = await parser.parseGivePatchEvent([increasedGiveAmountEvent], srcDecoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toEqual([{
+                orderId: giveOrderId,
+                status: 'give_patched',
+                amount: '105000000',
+                decimals: 6,
+                percentFee: '42000',
+                tokenKey: usdcMint,
+                tokenSymbol: 'USDC',
+                actor: patcher
+            }]);
+        });
+
+        it('should return null without give patches', async () => {
+            const transaction = buildGivePatchTransaction();
+
+            const result = await parser.parseGivePatchEvent([], [], mockTokensInfo, transaction);
+
+            expect(result).toBeNull();
+        });
+
+        it('should return null if patch instructions and events mismatch', async () => {
+            const transaction = buildGivePatchTransaction();
+
+            const result = await parser.parseGivePatchEvent([], srcDecoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toBeNull();
+        });
+
+        it('should skip patch if order ID does not match giveOrderState', async () => {
+            const transaction = buildGivePatchTransaction(takeOrderId);
+
+            const result = await parser.parseGivePatchEvent([increasedGiveAmountEvent], srcDecoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toEqual([]);
+        });
+
+        it('should skip patch if order wallet has no token balance', async () => {
+            const transaction = buildGivePatchTransaction();
+            transaction.meta!.postTokenBalances = [];
+
+            const result = await parser.parseGivePatchEvent([increasedGiveAmountEvent], srcDecoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toEqual([]);
+        });
+    });
+
+    describe('parseTakePatchEvent', () => {
+        it('should parse final take amount', async () => {
+            const transaction = buildTakePatchTransaction();
+
+            const result = await parser.parseTakePatchEvent([decreaseTakeAmountEvent], dstDecoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toHaveLength(1);
+            expect(result![0]).toMatchObject({
+                orderId: takeOrderId,
+                status: 'take_patched',
+                tokenKey: solTokenInfo.key,
+                amount: '2919776213',
+                decimals: 9,
+                tokenSymbol: 'SOL',
+                actor: patcher
+            });
+            expect(result![0].percentFee).toBeUndefined();
+        });
+
+        it('should skip patch without patchTakeOrder instruction', async () => {
+            const transaction = buildTakePatchTransaction();
+
+            const result = await parser.parseTakePatchEvent([decreaseTakeAmountEvent], [], mockTokensInfo, transaction);
+
+            expect(result).toEqual([]);
+        });
+
+        it('should return null without DecreaseTakeAmount events', async () => {
+            const transaction = buildTakePatchTransaction();
+
+            const result = await parser.parseTakePatchEvent([], dstDecoder.decodeTransaction(transaction), mockTokensInfo, transaction);
+
+            expect(result).toBeNull();
+        });
+    });
+});
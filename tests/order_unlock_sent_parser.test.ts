@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BN, BorshCoder, Event, utils } from '@coral-xyz/anchor';
+import { PublicKey, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { OrderUnlockSentParser } from '../src/scrapper/order_unlock_sent_parser';
+import { InstructionDecoder } from '../src/scrapper/instruction_decoder';
+import { IDL as DlnDstIdl } from '../src/idl/dst';
+
+const dstProgramID = new PublicKey('dst5MGcFPoBeREFAA5E3tU5ij8m5uVYwkzkSAbsLbNo');
+const orderId1 = '76ef49d302f1c30f8b3b0e3f1b294b604c5245a7566c0b05c1279a525dfb703c';
+const orderId2 = '063d9ddfcb55a466c470295188d0b75e62675de8af039f1175fa433d21f7ef0d';
+const unlocker = PublicKey.unique().toString();
+const coder = new BorshCoder(DlnDstIdl);
+
+function getTakeOrderState(orderId: string): string {
+    const [takeOrderState] = PublicKey.findProgramAddressSync([Buffer.from('TAKE_ORDER_STATE'), Buffer.from(orderId, 'hex')], dstProgramID);
+    return takeOrderState.toString();
+}
+
+function orderIdLog(orderId: string): string {
+    return `Program log: Order Id: ${BigInt('0x' + orderId).toString()}`;
+}
+
+function buildUnlockTransaction(instructionName: 'sendUnlock' | 'sendBatchUnlock', orderIds: string[], logMessages: string[] = []): ParsedTransactionWithMeta {
+    // Unlocks are sent by takers rarely, so the transaction is built with the same IDL
+    const idlInstruction = DlnDstIdl.instructions.find(instruction => instruction.name === instructionName)!;
+    const accounts: string[] = [];
+    const collectAccounts = (items: any[]) => {
+        for (const account of items) {
+            if ('accounts' in account) {
+                collectAccounts(account.accounts);
+                continue;
+            }
+            switch (account.name) {
+                case 'takeOrderState': accounts.push(getTakeOrderState(orderIds[0])); break;
+                case 'unlocker': accounts.push(unlocker); break;
+                default: accounts.push(PublicKey.unique().toString());
+            }
+        }
+    };
+    collectAccounts(idlInstruction.accounts);
+    const args = { beneficiary: Buffer.alloc(20, 1), executionFee: new BN(0) };
+    let data: Buffer;
+    if (instructionName === 'sendUnlock') {
+        data = coder.instruction.encode(instructionName, { orderId: Array.from(Buffer.from(orderIds[0], 'hex')), ...args });
+    } else {
+        data = coder.instruction.encode(instructionName, args);
+        accounts.push(...orderIds.map(getTakeOrderState));
+    }
+    return {
+        blockTime: 1766061057,
+        slot: 390000000,
+        transaction: {
+            signatures: ['unlock_signature'],
+            message: {
+                instructions: [{
+                    programId: dstProgramID.toString(),
+                    accounts: accounts,
+                    data: utils.bytes.bs58.encode(data)
+                }]
+            }
+        },
+        meta: {
+            logMessages: logMessages,
+            innerInstructions: []
+        }
+    } as any;
+}
+
+describe('OrderUnlockSentParser', () => {
+    let parser: OrderUnlockSentParser;
+    let decoder: InstructionDecoder;
+    const sentUnlockEvent = { name: 'SentUnlock', data: {} } as Event;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        parser = new OrderUnlockSentParser(dstProgramID);
+        decoder = new InstructionDecoder(dstProgramID, DlnDstIdl);
+    });
+
+    describe('constructor', () => {
+        it('should throw error if dstProgramID is null', () => {
+            expect(() => {
+                new OrderUnlockSentParser(null as any);
+            }).toThrow('DLN_DST_PROGRAM_ID is not set');
+        });
+    });
+
+    describe('parseOrderUnlockSentEvent', () => {
+        it('should parse single unlock', () => {
+            const transaction = buildUnlockTransaction('sendUnlock', [orderId1]);
+
+            const result = parser.parseOrderUnlockSentEvent([sentUnlockEvent], decoder.decodeTransaction(transaction), transaction);
+
+            expect(result).toEqual([{
+                orderId: orderId1,
+                status: 'unlock_sent',
+                amount: '0',
+                decimals: 0,
+                tokenKey: null,
+                tokenSymbol: null,
+                actor: unlocker
+            }]);
+        });
+
+        it('should expand batch unlock into one record per order', () => {
+            const transaction = buildUnlockTransaction('sendBatchUnlock', [orderId1, orderId2], [orderIdLog(orderId1), orderIdLog(orderId2)]);
+
+            const result = parser.parseOrderUnlockSentEvent([sentUnlockEvent, sentUnlockEvent], decoder.decodeTransaction(transaction), transaction);
+
+            expect(result!.map(order => order.orderId)).toEqual([orderId1, orderId2]);
+            expect(result!.every(order => order.status === 'unlock_sent' && order.actor === unlocker)).toBe(true);
+        });
+
+        it('should accept one event for the whole batch', () => {
+            const transaction = buildUnlockTransaction('sendBatchUnlock', [orderId1, orderId2], [orderIdLog(orderId1), orderIdLog(orderId2)]);
+
+            const result = parser.parseOrderUnlockSentEvent([sentUnlockEvent], decoder.decodeTransaction(transaction), transaction);
+
+            expect(result).toHaveLength(2);
+        });
+
+        it('should flag batch orders if some order IDs are not logged', () => {
+            const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const transaction = buildUnlockTransaction('sendBatchUnlock', [orderId1, orderId2], [orderIdLog(orderId2)]);
+
+            const result = parser.parseOrderUnlockSentEvent([sentUnlockEvent], decoder.decodeTransaction(transaction), transaction);
+
+            expect(result!.map(order => order.orderId)).toEqual([orderId2]);
+            expect(result![0].dataQualityFlags).toEqual(['batch_incomplete']);
+            expect(consoleErrorSpy).toHaveBeenCalledWith('unlock_signature: Order IDs of 1 of 2 orders of sendBatchUnlock are not found in logs');
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should count events of batch orders without logged order ID', () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            const transaction = buildUnlockTransaction('sendBatchUnlock', [orderId1, orderId2], [orderIdLog(orderId2)]);
+
+            const result = parser.parseOrderUnlockSentEvent([sentUnlockEvent, sentUnlockEvent], decoder.decodeTransaction(transaction), transaction);
+
+            expect(result!.map(order => order.orderId)).toEqual([orderId2]);
+            vi.mocked(console.error).mockRestore();
+        });
+
+        it('should not flag complete batch', () => {
+            const transaction = buildUnlockTransaction('sendBatchUnlock', [orderId1, orderId2], [orderIdLog(orderId1), orderIdLog(orderId2)]);
+
+            const result = parser.parseOrderUnlockSentEvent([sentUnlockEvent], decoder.decodeTransaction(transaction), transaction);
+
+            expect(result!.every(order => order.dataQualityFlags === undefined)).toBe(true);
+        });
+
+        it('should return null without unlocks', () => {
+            const transaction = buildUnlockTransaction('sendUnlock', [orderId1]);
+
+            const result = parser.parseOrderUnlockSentEvent([], [], transaction);
+
+            expect(result).toBeNull();
+        });
+
+        it('should return null if unlock instructions and events mismatch', () => {
+            const transaction = buildUnlockTransaction('sendUnlock', [orderId1]);
+
+            const result = parser.parseOrderUnlockSentEvent([], decoder.decodeTransaction(transaction), transaction);
+
+            expect(result).toBeNull();
+        });
+    });
+
+    describe('_getOrderIdsFromLogs', () => {
+        it('should convert decimal order IDs with leading zeros', () => {
+            const transaction = buildUnlockTransaction('sendUnlock', [orderId1], [
+                'Program log: Instruction: SendUnlock',
+                'Program log: Order Id: 2822744370109259030932296532046346280377729554490514279675250332664159792909'
+            ]);
+
+            expect(parser._getOrderIdsFromLogs(transaction)).toEqual([orderId2]);
+        });
+    });
+});
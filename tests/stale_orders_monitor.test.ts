@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { StaleOrdersMonitor } from '../src/infrastructure/stale_orders_monitor';
+import { DBController } from '../src/infrastructure/db_controller';
+import { StaleOrdersGroup } from '../src/interfaces/infrastructure_interfaces';
+
+describe('StaleOrdersMonitor', () => {
+    let mockDBController: DBController;
+    let server: http.Server;
+    let webhookUrl: string;
+    let receivedRequests: { method?: string, contentType?: string, body: any }[];
+    let responseStatus: number;
+    const now = new Date('2025-12-18T12:00:00Z');
+    const staleGroup: StaleOrdersGroup = {
+        symbol: 'USDC',
+        takeChain: 'Base',
+        numOfOrders: 2,
+        totalAmount: 150.5,
+        oldestCreatedAt: new Date('2025-12-18T09:00:00Z'),
+        orderIds: ['order_1', 'order_2']
+    };
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        mockDBController = {
+            getStaleOrders: vi.fn().mockResolvedValue([staleGroup])
+        } as any;
+        // Local stand-in for the alert webhook
+        receivedRequests = [];
+        responseStatus = 200;
+        server = http.createServer((request, response) => {
+            let body = '';
+            request.on('data', chunk => body += chunk);
+            request.on('end', () => {
+                receivedRequests.push({ method: request.method, contentType: request.headers['content-type'], body: JSON.parse(body) });
+                response.statusCode = responseStatus;
+                response.end();
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/alert`;
+    });
+
+    afterEach(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    describe('constructor', () => {
+        it('should throw error if dbController is not set', () => {
+            expect(() => new StaleOrdersMonitor(null as any, { maxAgeMinutes: 60 })).toThrow('DBController is required');
+        });
+
+        it('should throw error if max age is wrong', () => {
+            expect(() => new StaleOrdersMonitor(mockDBController, { maxAgeMinutes: 0 })).toThrow('Wrong max age of orders: 0');
+        });
+    });
+
+    describe('check', () => {
+        it('should look for orders older than max age', async () => {
+            const monitor = new StaleOrdersMonitor(mockDBController, { maxAgeMinutes: 90 });
+
+            const result = await monitor.check(now);
+
+            expect(mockDBController.getStaleOrders).toHaveBeenCalledWith(new Date('2025-12-18T10:30:00Z'));
+            expect(result).toEqual([staleGroup]);
+            expect(receivedRequests).toHaveLength(0);
+        });
+
+        it('should post alert to webhook', async () => {
+            const monitor = new StaleOrdersMonitor(mockDBController, { maxAgeMinutes: 90, webhookUrl: webhookUrl });
+
+            await monitor.check(now);
+
+            expect(receivedRequests).toHaveLength(1);
+            expect(receivedRequests[0].method).toBe('POST');
+            expect(receivedRequests[0].contentType).toBe('application/json');
+            expect(receivedRequests[0].body).toEqual({
+                olderThan: '2025-12-18T10:30:00.000Z',
+                numOfOrders: 2,
+                groups: [{ ...staleGroup, oldestCreatedAt: '2025-12-18T09:00:00.000Z' }]
+            });
+        });
+
+        it('should not post alert without stale orders', async () => {
+            vi.mocked(mockDBController.getStaleOrders).mockResolvedValue([]);
+            const monitor = new StaleOrdersMonitor(mockDBController, { maxAgeMinutes: 90, webhookUrl: webhookUrl });
+
+            const result = await monitor.check(now);
+
+            expect(result).toEqual([]);
+            expect(receivedRequests).toHaveLength(0);
+        });
+
+        it('should throw error if webhook fails', async () => {
+            responseStatus = 500;
+            const monitor = new StaleOrdersMonitor(mockDBController, { maxAgeMinutes: 90, webhookUrl: webhookUrl });
+
+            await expect(monitor.check(now)).rejects.toThrow('Webhook responded with 500');
+        });
+    });
+});
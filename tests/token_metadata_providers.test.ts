@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    createTokenMetadataProviders,
+    JupiterTokenMetadataProvider,
+    OnChainTokenMetadataProvider,
+    OverridesTokenMetadataProvider,
+    TokenListMetadataProvider
+} from '../src/infrastructure/token_metadata_providers';
+import { TokenMetadata } from '../src/interfaces/infrastructure_interfaces';
+
+// Mock global fetch
+global.fetch = vi.fn();
+
+const usdcMint = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const mintMetadata: TokenMetadata = {
+    mint: usdcMint,
+    symbol: usdcMint,
+    name: null,
+    decimals: 6,
+    tokenProgram: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+    source: 'mint',
+    fetchedAt: new Date()
+};
+
+describe('token metadata providers', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'token-metadata-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    function writeFile(name: string, content: string): string {
+        const filePath = path.join(tempDir, name);
+        fs.writeFileSync(filePath, content);
+        return filePath;
+    }
+
+    describe('OnChainTokenMetadataProvider', () => {
+        it('should return metadata read with the mint', async () => {
+            const provider = new OnChainTokenMetadataProvider();
+
+            const result = await provider.getTokenMetadata(usdcMint, { ...mintMetadata, symbol: 'USDC', name: 'USD Coin', source: 'metaplex' });
+
+            expect(result).toEqual({ symbol: 'USDC', name: 'USD Coin', source: 'metaplex' });
+        });
+
+        it('should return null if mint has no metadata', async () => {
+            const provider = new OnChainTokenMetadataProvider();
+
+            expect(await provider.getTokenMetadata(usdcMint, mintMetadata)).toBeNull();
+        });
+    });
+
+    describe('JupiterTokenMetadataProvider', () => {
+        it('should return first token from search', async () => {
+            vi.mocked(global.fetch).mockResolvedValueOnce({
+                ok: true,
+                json: async () => [{ symbol: 'USDC', name: 'USD Coin', decimals: 6 }, { symbol: 'USDT', decimals: 6 }]
+            } as Response);
+            const provider = new JupiterTokenMetadataProvider();
+
+            const result = await provider.getTokenMetadata(usdcMint);
+
+            expect(global.fetch).toHaveBeenCalledWith(`https://lite-api.jup.ag/tokens/v2/search?query=${usdcMint}`);
+            expect(result).toEqual({ symbol: 'USDC', name: 'USD Coin', source: 'jupiter' });
+        });
+
+        it('should return null if token is not found', async () => {
+            vi.mocked(global.fetch).mockResolvedValueOnce({ ok: true, json: async () => [] } as Response);
+            const provider = new JupiterTokenMetadataProvider();
+
+            expect(await provider.getTokenMetadata(usdcMint)).toBeNull();
+        });
+
+        it('should throw error if API responds with error', async () => {
+            vi.mocked(global.fetch).mockResolvedValueOnce({ ok: false, status: 429, json: async () => ({ error: 'Too many requests' }) } as Response);
+            const provider = new JupiterTokenMetadataProvider();
+
+            await expect(provider.getTokenMetadata(usdcMint)).rejects.toThrow('Jupiter API responded with 429');
+        });
+    });
+
+    describe('TokenListMetadataProvider', () => {
+        it('should read JSON token list', async () => {
+            const provider = new TokenListMetadataProvider(writeFile('tokens.json', JSON.stringify([
+                { address: usdcMint, symbol: 'USDC', name: 'USD Coin' }
+            ])));
+
+            expect(await provider.getTokenMetadata(usdcMint)).toEqual({ symbol: 'USDC', name: 'USD Coin', source: 'token-list' });
+        });
+
+        it('should read CSV token list', async () => {
+            const provider = new TokenListMetadataProvider(writeFile('tokens.csv', `mint,symbol,name\n${usdcMint},USDC,\n`));
+
+            expect(await provider.getTokenMetadata(usdcMint)).toEqual({ symbol: 'USDC', name: null, source: 'token-list' });
+        });
+
+        it('should return null for unknown mint', async () => {
+            const provider = new TokenListMetadataProvider(writeFile('tokens.json', '[]'));
+
+            expect(await provider.getTokenMetadata(usdcMint)).toBeNull();
+        });
+
+        it('should throw error if JSON is not an array', () => {
+            const filePath = writeFile('tokens.json', '{}');
+
+            expect(() => new TokenListMetadataProvider(filePath)).toThrow('Token list must be an array');
+        });
+    });
+
+    describe('OverridesTokenMetadataProvider', () => {
+        it('should return overridden symbol', async () => {
+            const provider = new OverridesTokenMetadataProvider(writeFile('overrides.json', JSON.stringify({
+                [usdcMint]: { symbol: 'USDC', name: 'USD Coin (native)' }
+            })));
+
+            expect(await provider.getTokenMetadata(usdcMint)).toEqual({ symbol: 'USDC', name: 'USD Coin (native)', source: 'overrides' });
+        });
+
+        it('should return null without override', async () => {
+            const provider = new OverridesTokenMetadataProvider(writeFile('overrides.json', '{}'));
+
+            expect(await provider.getTokenMetadata(usdcMint)).toBeNull();
+        });
+    });
+
+    describe('createTokenMetadataProviders', () => {
+        it('should create providers in the given order', () => {
+            const providers = createTokenMetadataProviders(['overrides', 'onchain', 'token-list', 'jupiter'], {
+                tokenListPath: writeFile('tokens.json', '[]'),
+                overridesPath: writeFile('overrides.json', '{}')
+            });
+
+            expect(providers.map(provider => provider.name)).toEqual(['overrides', 'onchain', 'token-list', 'jupiter']);
+        });
+
+        it('should throw error if file of the provider is not set', () => {
+            expect(() => createTokenMetadataProviders(['token-list'])).toThrow('Path of the token list is not set');
+        });
+
+        it('should throw error for unknown provider', () => {
+            expect(() => createTokenMetadataProviders(['coingecko'])).toThrow('Unknown token metadata provider: coingecko');
+        });
+    });
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { TokensInfoCache } from '../src/infrastructure/tokens_info_cache';
-import { TokenInfo } from '../src/interfaces/infrastructure_interfaces';
+import { ProvidedTokenMetadata, TokenInfo, TokenMetadata, TokenMetadataProvider } from '../src/interfaces/infrastructure_interfaces';
+import { DBController } from '../src/infrastructure/db_controller';
 
 // Mock global fetch
 global.fetch = vi.fn();
@@ -10,9 +11,34 @@ describe('TokensInfoCache', () => {
     let mockConnection: Connection;
     let tokensInfoCache: TokensInfoCache;
 
+    function mintAccount(decimals: number) {
+        const data = Buffer.alloc(82);
+        data[44] = decimals;
+        return { owner: new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'), data: data, executable: false, lamports: 1461600 };
+    }
+
+    function metaplexAccount(name: string, symbol: string) {
+        const strings = [name, symbol, ''].map(value => {
+            const length = Buffer.alloc(4);
+            length.writeUInt32LE(value.length);
+            return Buffer.concat([length, Buffer.from(value)]);
+        });
+        return { owner: new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s'), data: Buffer.concat([Buffer.alloc(65), ...strings]), executable: false, lamports: 1 };
+    }
+
+    function mockMint(mint: any, metaplex: any = null) {
+        // Mints are requested first and then their metadata accounts
+        vi.mocked(mockConnection.getMultipleAccountsInfo).mockImplementation(async (keys: PublicKey[]) =>
+            keys.map((_, index) => index < keys.length / 2 ? mint : metaplex));
+    }
+
     beforeEach(() => {
         vi.clearAllMocks();
-        mockConnection = {} as Connection;
+        // Mint without metadata on chain, so the symbol is taken from the API
+        mockConnection = {
+            getMultipleAccountsInfo: vi.fn()
+        } as any;
+        mockMint(mintAccount(6));
     });
 
     describe('constructor', () => {
@@ -32,6 +58,12 @@ describe('TokensInfoCache', () => {
                 new TokensInfoCache(undefined as any);
             }).toThrow('Connection is required');
         });
+
+        it('should throw error if metadata TTL is wrong', () => {
+            expect(() => {
+                new TokensInfoCache(mockConnection, null, { metadataTtlHours: -1 });
+            }).toThrow('Wrong TTL of token metadata: -1');
+        });
     });
 
     describe('getTokenInfo', () => {
@@ -65,6 +97,7 @@ describe('TokensInfoCache', () => {
             }];
 
             vi.mocked(global.fetch).mockResolvedValueOnce({
+                ok: true,
                 json: async () => apiResponse
             } as Response);
 
@@ -85,8 +118,10 @@ describe('TokensInfoCache', () => {
                 symbol: 'SOL',
                 decimals: 9
             }];
+            mockMint(mintAccount(9));
 
             vi.mocked(global.fetch).mockResolvedValueOnce({
+                ok: true,
                 json: async () => apiResponse
             } as Response);
 
@@ -105,17 +140,17 @@ describe('TokensInfoCache', () => {
             });
         });
 
-        it('should return default values when API returns empty array', async () => {
+        it('should use mint as symbol if token has no metadata', async () => {
             const tokenPublicKey = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
             const tokenPublicKeyString = tokenPublicKey.toString();
 
             vi.mocked(global.fetch).mockResolvedValueOnce({
+                ok: true,
                 json: async () => []
             } as Response);
 
             const result = await tokensInfoCache.getTokenInfo(tokenPublicKey);
 
-            expect(result).not.toBeNull();
             expect(result).toEqual({
                 key: tokenPublicKeyString,
                 symbol: tokenPublicKeyString,
@@ -123,12 +158,50 @@ describe('TokensInfoCache', () => {
             });
         });
 
+        it('should take decimals from mint account instead of API', async () => {
+            const tokenPublicKey = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+            mockMint(mintAccount(8));
+            vi.mocked(global.fetch).mockResolvedValueOnce({
+                ok: true,
+                json: async () => [{ symbol: 'WBTC', decimals: 6 }]
+            } as Response);
+
+            const result = await tokensInfoCache.getTokenInfo(tokenPublicKey);
+
+            expect(result).toEqual({ key: tokenPublicKey.toString(), symbol: 'WBTC', precision: 8 });
+        });
+
+        it('should not call API if token has metadata on chain', async () => {
+            const tokenPublicKey = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+            mockMint(mintAccount(6), metaplexAccount('USD Coin', 'USDC'));
+
+            const result = await tokensInfoCache.getTokenInfo(tokenPublicKey);
+
+            expect(result).toEqual({ key: tokenPublicKey.toString(), symbol: 'USDC', precision: 6 });
+            expect(global.fetch).not.toHaveBeenCalled();
+        });
+
+        it('should return null if token is not a mint', async () => {
+            const tokenPublicKey = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+            mockMint(null);
+
+            const result = await tokensInfoCache.getTokenInfo(tokenPublicKey);
+
+            expect(result).toBeNull();
+            expect(global.fetch).not.toHaveBeenCalled();
+        });
+
         it('should handle API errors gracefully', async () => {
+            const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
             const tokenPublicKey = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
 
             vi.mocked(global.fetch).mockRejectedValueOnce(new Error('Network error'));
 
-            await expect(tokensInfoCache.getTokenInfo(tokenPublicKey)).rejects.toThrow('Network error');
+            const result = await tokensInfoCache.getTokenInfo(tokenPublicKey);
+
+            expect(result).toEqual({ key: tokenPublicKey.toString(), symbol: tokenPublicKey.toString(), precision: 6 });
+            expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('Network error'));
+            consoleErrorSpy.mockRestore();
         });
 
         it('should use first item from API response array', async () => {
@@ -146,6 +219,7 @@ describe('TokensInfoCache', () => {
             ];
 
             vi.mocked(global.fetch).mockResolvedValueOnce({
+                ok: true,
                 json: async () => apiResponse
             } as Response);
 
@@ -158,5 +232,247 @@ describe('TokensInfoCache', () => {
             });
         });
     });
-});
 
+    describe('getTokenInfo with token metadata table', () => {
+        const tokenPublicKey = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+        let mockDBController: DBController;
+
+        function storedMetadata(fetchedAt: Date): TokenMetadata {
+            return {
+                mint: tokenPublicKey.toString(),
+                symbol: 'USDC',
+                name: 'USD Coin',
+                decimals: 6,
+                tokenProgram: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+                source: 'jupiter',
+                fetchedAt: fetchedAt
+            };
+        }
+
+        beforeEach(() => {
+            mockDBController = {
+                getTokenMetadata: vi.fn().mockResolvedValue(null),
+                saveTokenMetadata: vi.fn().mockResolvedValue(undefined)
+            } as any;
+            tokensInfoCache = new TokensInfoCache(mockConnection, mockDBController, { metadataTtlHours: 24 });
+        });
+
+        it('should return fresh metadata from DB without API call', async () => {
+            vi.mocked(mockDBController.getTokenMetadata).mockResolvedValue(storedMetadata(new Date()));
+
+            const result = await tokensInfoCache.getTokenInfo(tokenPublicKey);
+
+            expect(result).toEqual({ key: tokenPublicKey.toString(), symbol: 'USDC', precision: 6 });
+            expect(global.fetch).not.toHaveBeenCalled();
+        });
+
+        it('should save metadata fetched from API', async () => {
+            vi.mocked(global.fetch).mockResolvedValueOnce({
+                ok: true,
+                json: async () => [{ symbol: 'USDC', name: 'USD Coin', decimals: 6, tokenProgram: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' }]
+            } as Response);
+
+            await tokensInfoCache.getTokenInfo(tokenPublicKey);
+
+            expect(mockDBController.getTokenMetadata).toHaveBeenCalledWith(tokenPublicKey.toString());
+            expect(mockDBController.saveTokenMetadata).toHaveBeenCalledWith(storedMetadata(expect.any(Date)));
+        });
+
+        it('should refresh outdated metadata', async () => {
+            vi.mocked(mockDBController.getTokenMetadata).mockResolvedValue(storedMetadata(new Date(Date.now() - 25 * 60 * 60 * 1000)));
+            vi.mocked(global.fetch).mockResolvedValueOnce({
+                ok: true,
+                json: async () => [{ symbol: 'USDC.e', decimals: 6 }]
+            } as Response);
+
+            const result = await tokensInfoCache.getTokenInfo(tokenPublicKey);
+
+            expect(result!.symbol).toBe('USDC.e');
+            expect(mockDBController.saveTokenMetadata).toHaveBeenCalledWith(expect.objectContaining({ symbol: 'USDC.e', name: null }));
+        });
+
+        it('should use outdated metadata if API is not available', async () => {
+            vi.mocked(mockDBController.getTokenMetadata).mockResolvedValue(storedMetadata(new Date(0)));
+            vi.mocked(global.fetch).mockRejectedValueOnce(new Error('Network error'));
+
+            const result = await tokensInfoCache.getTokenInfo(tokenPublicKey);
+
+            expect(result).toEqual({ key: tokenPublicKey.toString(), symbol: 'USDC', precision: 6 });
+            expect(mockDBController.saveTokenMetadata).not.toHaveBeenCalled();
+        });
+
+        it('should not save anything if token is not a mint', async () => {
+            mockMint(null);
+
+            const result = await tokensInfoCache.getTokenInfo(tokenPublicKey);
+
+            expect(result).toBeNull();
+            expect(mockDBController.saveTokenMetadata).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getTokenInfo with metadata providers', () => {
+        const tokenPublicKey = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+        let mockDBController: DBController;
+
+        function provider(name: string, answer: ProvidedTokenMetadata | null | Error): TokenMetadataProvider {
+            return {
+                name: name,
+                getTokenMetadata: answer instanceof Error ? vi.fn().mockRejectedValue(answer) : vi.fn().mockResolvedValue(answer)
+            };
+        }
+
+        beforeEach(() => {
+            mockDBController = {
+                getTokenMetadata: vi.fn().mockResolvedValue(null),
+                saveTokenMetadata: vi.fn().mockResolvedValue(undefined)
+            } as any;
+        });
+
+        it('should use the first provider that knows the token and save it as the source', async () => {
+            const overrides = provider('overrides', null);
+            const tokenList = provider('token-list', { symbol: 'USDC', name: 'USD Coin', source: 'token-list' });
+            const jupiter = provider('jupiter', { symbol: 'USDC.e', name: null, source: 'jupiter' });
+            tokensInfoCache = new TokensInfoCache(mockConnection, mockDBController, { providers: [overrides, tokenList, jupiter] });
+
+            const result = await tokensInfoCache.getTokenInfo(tokenPublicKey);
+
+            expect(result).toEqual({ key: tokenPublicKey.toString(), symbol: 'USDC', precision: 6 });
+            expect(overrides.getTokenMetadata).toHaveBeenCalledWith(tokenPublicKey.toString(), expect.objectContaining({ decimals: 6, source: 'mint' }));
+            expect(jupiter.getTokenMetadata).not.toHaveBeenCalled();
+            expect(mockDBController.saveTokenMetadata).toHaveBeenCalledWith(expect.objectContaining({ symbol: 'USDC', source: 'token-list', decimals: 6 }));
+        });
+
+        it('should ask next provider if one fails', async () => {
+            tokensInfoCache = new TokensInfoCache(mockConnection, mockDBController, {
+                providers: [provider('jupiter', new Error('Network error')), provider('token-list', { symbol: 'USDC', name: null, source: 'token-list' })]
+            });
+
+            const result = await tokensInfoCache.getTokenInfo(tokenPublicKey);
+
+            expect(result!.symbol).toBe('USDC');
+        });
+
+        it('should not save mint as symbol if a provider fails', async () => {
+            const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            tokensInfoCache = new TokensInfoCache(mockConnection, mockDBController, {
+                providers: [provider('jupiter', new Error('Network error')), provider('token-list', null)]
+            });
+
+            const result = await tokensInfoCache.getTokenInfo(tokenPublicKey);
+
+            expect(result).toEqual({ key: tokenPublicKey.toString(), symbol: tokenPublicKey.toString(), precision: 6 });
+            expect(mockDBController.saveTokenMetadata).not.toHaveBeenCalled();
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should ask providers again after a provider fails', async () => {
+            const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            const jupiter: TokenMetadataProvider = {
+                name: 'jupiter',
+                getTokenMetadata: vi.fn()
+                    .mockRejectedValueOnce(new Error('Jupiter API responded with 429'))
+                    .mockResolvedValueOnce({ symbol: 'USDC', name: 'USD Coin', source: 'jupiter' })
+            };
+            tokensInfoCache = new TokensInfoCache(mockConnection, mockDBController, { providers: [jupiter] });
+
+            await tokensInfoCache.getTokenInfo(tokenPublicKey);
+            const result = await tokensInfoCache.getTokenInfo(tokenPublicKey);
+
+            expect(result!.symbol).toBe('USDC');
+            expect(mockDBController.saveTokenMetadata).toHaveBeenCalledTimes(1);
+            expect(mockDBController.saveTokenMetadata).toHaveBeenCalledWith(expect.objectContaining({ symbol: 'USDC', source: 'jupiter' }));
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should use outdated metadata if a provider fails', async () => {
+            const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            vi.mocked(mockDBController.getTokenMetadata).mockResolvedValue({
+                mint: tokenPublicKey.toString(), symbol: 'USDC', name: 'USD Coin', decimals: 6,
+                tokenProgram: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA', source: 'jupiter', fetchedAt: new Date(0)
+            });
+            tokensInfoCache = new TokensInfoCache(mockConnection, mockDBController, { providers: [provider('jupiter', new Error('Network error'))] });
+
+            const result = await tokensInfoCache.getTokenInfo(tokenPublicKey);
+
+            expect(result!.symbol).toBe('USDC');
+            expect(mockDBController.saveTokenMetadata).not.toHaveBeenCalled();
+            consoleErrorSpy.mockRestore();
+        });
+
+        it('should use mint as symbol if no provider knows the token', async () => {
+            tokensInfoCache = new TokensInfoCache(mockConnection, mockDBController, { providers: [provider('token-list', null)] });
+
+            await tokensInfoCache.getTokenInfo(tokenPublicKey);
+
+            expect(mockDBController.saveTokenMetadata).toHaveBeenCalledWith(expect.objectContaining({ symbol: tokenPublicKey.toString(), name: null, source: 'mint' }));
+        });
+    });
+
+    describe('concurrent and batch lookups', () => {
+        const usdcPublicKey = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+        const solPublicKey = new PublicKey('So11111111111111111111111111111111111111112');
+
+        beforeEach(() => {
+            tokensInfoCache = new TokensInfoCache(mockConnection, null, { providers: [] });
+        });
+
+        it('should request new mint once for concurrent lookups', async () => {
+            const results = await Promise.all([
+                tokensInfoCache.getTokenInfo(usdcPublicKey),
+                tokensInfoCache.getTokenInfo(usdcPublicKey),
+                tokensInfoCache.getTokenInfo(usdcPublicKey)
+            ]);
+
+            expect(mockConnection.getMultipleAccountsInfo).toHaveBeenCalledTimes(1);
+            expect(results[1]).toBe(results[0]);
+            expect(results[2]).toBe(results[0]);
+        });
+
+        it('should request mint again after failed lookup', async () => {
+            vi.mocked(mockConnection.getMultipleAccountsInfo).mockRejectedValueOnce(new Error('RPC error'));
+
+            await expect(tokensInfoCache.getTokenInfo(usdcPublicKey)).rejects.toThrow('RPC error');
+            const result = await tokensInfoCache.getTokenInfo(usdcPublicKey);
+
+            expect(result!.precision).toBe(6);
+            expect(mockConnection.getMultipleAccountsInfo).toHaveBeenCalledTimes(2);
+        });
+
+        it('should read new mints with one request', async () => {
+            const result = await tokensInfoCache.getTokenInfos([usdcPublicKey, solPublicKey, usdcPublicKey]);
+
+            expect(mockConnection.getMultipleAccountsInfo).toHaveBeenCalledTimes(1);
+            expect(vi.mocked(mockConnection.getMultipleAccountsInfo).mock.calls[0][0]).toHaveLength(4);
+            expect([...result.keys()]).toEqual([usdcPublicKey.toString(), solPublicKey.toString()]);
+            expect(result.get(solPublicKey.toString())).toEqual({ key: solPublicKey.toString(), symbol: solPublicKey.toString(), precision: 6 });
+        });
+
+        it('should not request cached and fresh stored mints', async () => {
+            const mockDBController = {
+                getTokenMetadata: vi.fn().mockImplementation(async (mint: string) => mint === solPublicKey.toString() ? {
+                    mint: mint, symbol: 'SOL', name: 'Wrapped SOL', decimals: 9, tokenProgram: null, source: 'metaplex', fetchedAt: new Date()
+                } : null),
+                saveTokenMetadata: vi.fn()
+            } as any;
+            tokensInfoCache = new TokensInfoCache(mockConnection, mockDBController, { providers: [] });
+            (tokensInfoCache as any).tokens.set(usdcPublicKey.toString(), { key: usdcPublicKey.toString(), symbol: 'USDC', precision: 6 });
+
+            const result = await tokensInfoCache.getTokenInfos([usdcPublicKey, solPublicKey]);
+
+            expect(mockConnection.getMultipleAccountsInfo).not.toHaveBeenCalled();
+            expect(result.get(solPublicKey.toString())!.symbol).toBe('SOL');
+            expect(result.get(usdcPublicKey.toString())!.symbol).toBe('USDC');
+        });
+
+        it('should join lookup that is already in flight', async () => {
+            const single = tokensInfoCache.getTokenInfo(usdcPublicKey);
+            const batch = tokensInfoCache.getTokenInfos([usdcPublicKey, solPublicKey]);
+
+            await Promise.all([single, batch]);
+
+            const requestedKeys = vi.mocked(mockConnection.getMultipleAccountsInfo).mock.calls.map(call => call[0].map(key => key.toString()));
+            expect(requestedKeys.flat().filter(key => key === usdcPublicKey.toString())).toHaveLength(1);
+        });
+    });
+});
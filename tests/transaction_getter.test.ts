@@ -41,14 +41,15 @@ describe('transaction_getter', () => {
         
         mockConnection = {
             getSignaturesForAddress: vi.fn(),
-            getTransaction: vi.fn(),
+            getParsedTransaction: vi.fn(),
         } as any;
 
         mockTokensInfo = {
             getTokenInfo: vi.fn().mockResolvedValue({
                 symbol: 'USDC',
                 precision: 6
-            })
+            }),
+            getTokenInfos: vi.fn().mockResolvedValue(new Map())
         } as any;
 
         mockProgramId = new PublicKey('src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4');
@@ -59,15 +60,17 @@ describe('transaction_getter', () => {
             }
             const sig = (transaction as VersionedTransactionResponse).transaction?.signatures?.[0];
             if (transactionSignatures.includes(sig)) {
-                return {
+                return [{
                     orderId: `test_order_id_${sig.slice(0, 8)}`,
                     status: 'created' as const,
                     timestamp: 1766061057,
                     tokenSymbol: 'USDC',
-                    amount: 100.0,
-                    percentFee: 0.01,
-                    fixedFee: 0
-                };
+                    tokenKey: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+                    amount: '100000000',
+                    decimals: 6,
+                    percentFee: '10000',
+                    fixedFee: '0'
+                }];
             }
             return undefined;
         });
@@ -91,7 +94,7 @@ describe('transaction_getter', () => {
                 }
                 return signatures;
             });
-            vi.mocked(mockConnection.getTransaction).mockImplementation(async (sig: string) => {
+            vi.mocked(mockConnection.getParsedTransaction).mockImplementation(async (sig: string) => {
                 return loadTransactionFromFile(sig);
             });
 
@@ -110,7 +113,7 @@ describe('transaction_getter', () => {
             }
 
             expect(mockConnection.getSignaturesForAddress).toHaveBeenCalled();
-            expect(mockConnection.getTransaction).toHaveBeenCalledTimes(transactionSignatures.length);
+            expect(mockConnection.getParsedTransaction).toHaveBeenCalledTimes(transactionSignatures.length);
             expect(results.length).toBeGreaterThan(0);
         });
 
@@ -131,7 +134,7 @@ describe('transaction_getter', () => {
                 }
                 return signatures;
             });
-            vi.mocked(mockConnection.getTransaction).mockImplementation(async (sig: string) => {
+            vi.mocked(mockConnection.getParsedTransaction).mockImplementation(async (sig: string) => {
                 return loadTransactionFromFile(sig);
             });
 
@@ -170,7 +173,7 @@ describe('transaction_getter', () => {
             }
 
             expect(results.length).toBe(0);
-            expect(mockConnection.getTransaction).not.toHaveBeenCalled();
+            expect(mockConnection.getParsedTransaction).not.toHaveBeenCalled();
         });
 
         it('should handle null transactions', async () => {
@@ -190,7 +193,7 @@ describe('transaction_getter', () => {
                 }
                 return signatures;
             });
-            vi.mocked(mockConnection.getTransaction).mockResolvedValue(null);
+            vi.mocked(mockConnection.getParsedTransaction).mockResolvedValue(null);
 
             const totalRequired = 10;
             const batchSize = 10;
@@ -206,7 +209,7 @@ describe('transaction_getter', () => {
                 results.push(...batch);
             }
 
-            expect(mockConnection.getTransaction).toHaveBeenCalled();
+            expect(mockConnection.getParsedTransaction).toHaveBeenCalled();
             expect(results.length).toBe(0);
         });
 
@@ -220,7 +223,7 @@ describe('transaction_getter', () => {
             }));
 
             vi.mocked(mockConnection.getSignaturesForAddress).mockResolvedValue(signatures);
-            vi.mocked(mockConnection.getTransaction).mockImplementation(async (sig: string) => {
+            vi.mocked(mockConnection.getParsedTransaction).mockImplementation(async (sig: string) => {
                 return loadTransactionFromFile(sig);
             });
 
@@ -247,6 +250,100 @@ describe('transaction_getter', () => {
             );
         });
 
+        it('should use untilSignature parameter in forward mode', async () => {
+            const signatures: ConfirmedSignatureInfo[] = transactionSignatures.map(sig => ({
+                signature: sig,
+                slot: 0,
+                err: null,
+                memo: null,
+                blockTime: 1766061057
+            }));
+
+            let callCount = 0;
+            vi.mocked(mockConnection.getSignaturesForAddress).mockImplementation(async () => {
+                callCount++;
+                if (callCount > 1) {
+                    return [];
+                }
+                return signatures;
+            });
+            vi.mocked(mockConnection.getParsedTransaction).mockImplementation(async (sig: string) => {
+                return loadTransactionFromFile(sig) as any;
+            });
+
+            const untilSignature = 'last_saved_signature';
+            const totalRequired = 10;
+            const batchSize = 10;
+            const results: any[] = [];
+
+            for await (const batch of fetchOrdersInBatches(
+                mockConnection,
+                mockProgramId,
+                mockTokensInfo,
+                totalRequired,
+                batchSize,
+                undefined,
+                untilSignature
+            )) {
+                results.push(...batch);
+            }
+
+            expect(mockConnection.getSignaturesForAddress).toHaveBeenCalledWith(
+                mockProgramId,
+                expect.objectContaining({
+                    until: untilSignature
+                })
+            );
+            expect(mockConnection.getSignaturesForAddress).toHaveBeenLastCalledWith(
+                mockProgramId,
+                expect.objectContaining({
+                    before: transactionSignatures[transactionSignatures.length - 1],
+                    until: untilSignature
+                })
+            );
+            // Forward mode returns orders from the oldest signature to the newest one
+            expect(results.map(order => order.signature)).toEqual([transactionSignatures[1], transactionSignatures[0]]);
+        });
+
+        it('should yield remaining orders when signatures are over', async () => {
+            const signatures: ConfirmedSignatureInfo[] = [{
+                signature: transactionSignatures[0],
+                slot: 0,
+                err: null,
+                memo: null,
+                blockTime: 1766061057
+            }];
+
+            let callCount = 0;
+            vi.mocked(mockConnection.getSignaturesForAddress).mockImplementation(async () => {
+                callCount++;
+                if (callCount > 1) {
+                    return [];
+                }
+                return signatures;
+            });
+            vi.mocked(mockConnection.getParsedTransaction).mockImplementation(async (sig: string) => {
+                return loadTransactionFromFile(sig) as any;
+            });
+
+            const totalRequired = 100;
+            const batchSize = 10;
+            const results: any[] = [];
+
+            for await (const batch of fetchOrdersInBatches(
+                mockConnection,
+                mockProgramId,
+                mockTokensInfo,
+                totalRequired,
+                batchSize
+            )) {
+                results.push(...batch);
+            }
+
+            expect(results.length).toBe(1);
+            expect(results[0].signature).toBe(transactionSignatures[0]);
+        });
+
         it('should yield batches when batchSize is reached', async () => {
             const signatures: ConfirmedSignatureInfo[] = transactionSignatures.map(sig => ({
                 signature: sig,
@@ -257,7 +354,7 @@ describe('transaction_getter', () => {
             }));
 
             vi.mocked(mockConnection.getSignaturesForAddress).mockResolvedValue(signatures);
-            vi.mocked(mockConnection.getTransaction).mockImplementation(async (sig: string) => {
+            vi.mocked(mockConnection.getParsedTransaction).mockImplementation(async (sig: string) => {
                 return loadTransactionFromFile(sig);
             });
 
@@ -291,7 +388,7 @@ describe('transaction_getter', () => {
 
             let callCount = 0;
             vi.mocked(mockConnection.getSignaturesForAddress).mockResolvedValue(signatures);
-            vi.mocked(mockConnection.getTransaction).mockImplementation(async () => {
+            vi.mocked(mockConnection.getParsedTransaction).mockImplementation(async () => {
                 callCount++;
                 if (callCount === 1) {
                     const error: any = new Error('429 Too Many Requests');
@@ -335,7 +432,7 @@ describe('transaction_getter', () => {
                 }
                 return signatures;
             });
-            vi.mocked(mockConnection.getTransaction).mockImplementation(async (sig: string) => {
+            vi.mocked(mockConnection.getParsedTransaction).mockImplementation(async (sig: string) => {
                 return loadTransactionFromFile(sig);
             });
             vi.mocked(parseDataFromTransaction).mockResolvedValue(undefined);
@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { OrdersStreamer } from '../src/scrapper/transaction_streamer';
+import { TokensInfoCache } from '../src/infrastructure/tokens_info_cache';
+import { DBController } from '../src/infrastructure/db_controller';
+import { parseDataFromTransaction } from '../src/scrapper/transaction_parser';
+import { fetchOrdersInBatches } from '../src/scrapper/transaction_getter';
+
+vi.mock('../src/scrapper/transaction_parser', () => ({
+    parseDataFromTransaction: vi.fn()
+}));
+
+vi.mock('../src/scrapper/transaction_getter', () => ({
+    fetchOrdersInBatches: vi.fn()
+}));
+
+describe('OrdersStreamer', () => {
+    const srcProgramId = new PublicKey('src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4');
+    let mockConnection: Connection;
+    let mockTokensInfo: TokensInfoCache;
+    let mockDBController: DBController;
+    let logsCallbacks: Array<(logs: any) => void>;
+    let streamer: OrdersStreamer;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        logsCallbacks = [];
+        mockConnection = {
+            onLogs: vi.fn().mockImplementation((_programId: PublicKey, callback: (logs: any) => void) => {
+                logsCallbacks.push(callback);
+                return logsCallbacks.length;
+            }),
+            removeOnLogsListener: vi.fn().mockResolvedValue(undefined),
+            getParsedTransaction: vi.fn().mockImplementation(async (signature: string) => ({
+                slot: 390000000,
+                transaction: { signatures: [signature] }
+            })),
+        } as any;
+        mockTokensInfo = {} as any;
+        mockDBController = {
+            saveBatchToDB: vi.fn().mockResolvedValue(undefined),
+            saveIngestionCursor: vi.fn().mockResolvedValue(undefined),
+            convertMainStagingTableToSilver: vi.fn().mockResolvedValue(undefined),
+        } as any;
+        vi.mocked(parseDataFromTransaction).mockResolvedValue([{
+            orderId: 'order_1',
+            status: 'created',
+            timestamp: 1766061057,
+            tokenSymbol: 'USDC',
+            tokenKey: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+            amount: '100000000',
+            decimals: 6,
+            percentFee: '10000',
+            fixedFee: '0'
+        }]);
+        streamer = new OrdersStreamer(mockConnection, mockTokensInfo, mockDBController, {
+            microBatchSize: 2,
+            flushIntervalMs: 60000,
+            idleTimeoutMs: 60000
+        });
+    });
+
+    afterEach(async () => {
+        await streamer.stop();
+    });
+
+    it('should throw error if connection is not set', () => {
+        expect(() => new OrdersStreamer(null as any, mockTokensInfo, mockDBController)).toThrow('Connection is required');
+    });
+
+    it('should subscribe to logs of every program', () => {
+        const dstProgramId = new PublicKey('dst5MGcFPoBeREFAA5E3tU5ij8m5uVYwkzkSAbsLbNo');
+
+        streamer.start([srcProgramId, dstProgramId]);
+
+        expect(mockConnection.onLogs).toHaveBeenCalledTimes(2);
+        expect(mockConnection.onLogs).toHaveBeenCalledWith(srcProgramId, expect.any(Function), 'confirmed');
+        expect(mockConnection.onLogs).toHaveBeenCalledWith(dstProgramId, expect.any(Function), 'confirmed');
+    });
+
+    it('should save orders in micro batches', async () => {
+        streamer.start([srcProgramId]);
+
+        logsCallbacks[0]({ signature: 'signature_1', err: null, logs: [] });
+        await streamer.waitForPendingTasks();
+        expect(mockDBController.saveBatchToDB).not.toHaveBeenCalled();
+
+        logsCallbacks[0]({ signature: 'signature_2', err: null, logs: [] });
+        await streamer.waitForPendingTasks();
+
+        expect(mockDBController.saveBatchToDB).toHaveBeenCalledTimes(1);
+        const [batch, programId] = vi.mocked(mockDBController.saveBatchToDB).mock.calls[0];
+        expect(programId).toBe(srcProgramId.toString());
+        expect(batch.map(order => order.signature)).toEqual(['signature_1', 'signature_2']);
+        expect(batch[0].slot).toBe(390000000);
+        expect(mockDBController.convertMainStagingTableToSilver).toHaveBeenCalled();
+    });
+
+    it('should skip failed transactions', async () => {
+        streamer.start([srcProgramId]);
+
+        logsCallbacks[0]({ signature: 'signature_1', err: { InstructionError: [0, 'Custom'] }, logs: [] });
+        await streamer.waitForPendingTasks();
+
+        expect(mockConnection.getParsedTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should flush remaining orders on stop', async () => {
+        streamer.start([srcProgramId]);
+
+        logsCallbacks[0]({ signature: 'signature_1', err: null, logs: [] });
+        await streamer.stop();
+
+        expect(mockConnection.removeOnLogsListener).toHaveBeenCalledWith(1);
+        expect(mockDBController.saveBatchToDB).toHaveBeenCalledWith(
+            [expect.objectContaining({ signature: 'signature_1' })],
+            srcProgramId.toString()
+        );
+    });
+
+    it('should keep batch for the next flush if saving failed', async () => {
+        vi.mocked(mockDBController.saveBatchToDB).mockRejectedValueOnce(new Error('Database error'));
+        streamer.start([srcProgramId]);
+
+        logsCallbacks[0]({ signature: 'signature_1', err: null, logs: [] });
+        logsCallbacks[0]({ signature: 'signature_2', err: null, logs: [] });
+        await streamer.waitForPendingTasks();
+        await streamer.flush();
+
+        expect(mockDBController.saveBatchToDB).toHaveBeenCalledTimes(2);
+        expect(vi.mocked(mockDBController.saveBatchToDB).mock.calls[1][0]).toHaveLength(2);
+    });
+
+    it('should backfill the gap after the last saved signature', async () => {
+        vi.mocked(fetchOrdersInBatches).mockImplementation(async function* () {
+            yield [];
+        });
+        streamer.start([srcProgramId], { [srcProgramId.toString()]: 'saved_signature' });
+
+        logsCallbacks[0]({ signature: 'signature_1', err: null, logs: [] });
+        await streamer.waitForPendingTasks();
+
+        expect(fetchOrdersInBatches).toHaveBeenCalledWith(
+            mockConnection,
+            srcProgramId,
+            mockTokensInfo,
+            Number.POSITIVE_INFINITY,
+            expect.any(Number),
+            'signature_1',
+            'saved_signature'
+        );
+    });
+
+    it('should resubscribe and backfill the gap after reconnect', async () => {
+        vi.mocked(fetchOrdersInBatches).mockImplementation(async function* () {
+            yield [];
+        });
+        streamer.start([srcProgramId]);
+        logsCallbacks[0]({ signature: 'signature_1', err: null, logs: [] });
+        await streamer.waitForPendingTasks();
+        expect(fetchOrdersInBatches).not.toHaveBeenCalled();
+
+        await streamer.reconnect(srcProgramId);
+        expect(mockConnection.removeOnLogsListener).toHaveBeenCalledWith(1);
+        expect(mockConnection.onLogs).toHaveBeenCalledTimes(2);
+
+        logsCallbacks[1]({ signature: 'signature_5', err: null, logs: [] });
+        await streamer.waitForPendingTasks();
+
+        expect(fetchOrdersInBatches).toHaveBeenCalledWith(
+            mockConnection,
+            srcProgramId,
+            mockTokensInfo,
+            Number.POSITIVE_INFINITY,
+            expect.any(Number),
+            'signature_5',
+            'signature_1'
+        );
+    });
+
+    it('should not move ingestion cursor over the gap until it is backfilled', async () => {
+        let finishGap: () => void = () => undefined;
+        const gapFinished = new Promise<void>(resolve => finishGap = resolve);
+        vi.mocked(fetchOrdersInBatches).mockImplementation(async function* () {
+            yield [{ orderId: 'order_0', status: 'created', signature: 'gap_signature', slot: 389999999 } as any];
+            await gapFinished;
+        });
+        streamer.start([srcProgramId], { [srcProgramId.toString()]: 'saved_signature' });
+
+        logsCallbacks[0]({ signature: 'signature_1', err: null, logs: [] });
+        logsCallbacks[0]({ signature: 'signature_2', err: null, logs: [] });
+        await vi.waitFor(() => expect(mockDBController.saveBatchToDB).toHaveBeenCalledTimes(2));
+
+        expect(vi.mocked(mockDBController.saveBatchToDB).mock.calls.map(call => call[1])).toEqual([undefined, undefined]);
+        expect(mockDBController.saveIngestionCursor).not.toHaveBeenCalled();
+
+        finishGap();
+        await streamer.waitForPendingTasks();
+
+        expect(mockDBController.saveIngestionCursor).toHaveBeenCalledWith(srcProgramId.toString(), [
+            expect.objectContaining({ signature: 'gap_signature' }),
+            expect.objectContaining({ signature: 'signature_2' })
+        ]);
+    });
+
+    it('should backfill the gap again if backfill failed', async () => {
+        vi.mocked(fetchOrdersInBatches).mockImplementationOnce(async function* () {
+            throw new Error('RPC error');
+        }).mockImplementation(async function* () {
+            yield [];
+        });
+        streamer.start([srcProgramId], { [srcProgramId.toString()]: 'saved_signature' });
+
+        logsCallbacks[0]({ signature: 'signature_1', err: null, logs: [] });
+        logsCallbacks[0]({ signature: 'signature_2', err: null, logs: [] });
+        await streamer.waitForPendingTasks();
+        logsCallbacks[0]({ signature: 'signature_3', err: null, logs: [] });
+        await streamer.waitForPendingTasks();
+
+        expect(vi.mocked(mockDBController.saveBatchToDB).mock.calls[0][1]).toBeUndefined();
+        expect(fetchOrdersInBatches).toHaveBeenLastCalledWith(
+            mockConnection,
+            srcProgramId,
+            mockTokensInfo,
+            Number.POSITIVE_INFINITY,
+            expect.any(Number),
+            'signature_3',
+            'saved_signature'
+        );
+        expect(mockDBController.saveIngestionCursor).toHaveBeenCalledWith(srcProgramId.toString(), expect.any(Array));
+    });
+
+    it('should hold ingestion cursor until failed transaction is retried and saved', async () => {
+        vi.mocked(parseDataFromTransaction).mockRejectedValueOnce(new Error('Token API error'));
+        const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+        streamer.start([srcProgramId]);
+
+        logsCallbacks[0]({ signature: 'signature_1', err: null, logs: [] });
+        await streamer.waitForPendingTasks();
+        logsCallbacks[0]({ signature: 'signature_2', err: null, logs: [] });
+        await streamer.waitForPendingTasks();
+        await streamer.flush();
+
+        expect(mockDBController.saveBatchToDB).toHaveBeenLastCalledWith([expect.objectContaining({ signature: 'signature_2' })], undefined);
+        expect(mockDBController.saveIngestionCursor).not.toHaveBeenCalled();
+
+        await streamer.retryFailedSignatures();
+        await streamer.flush();
+
+        expect(mockDBController.saveBatchToDB).toHaveBeenLastCalledWith([expect.objectContaining({ signature: 'signature_1' })], srcProgramId.toString());
+        expect(mockDBController.saveIngestionCursor).toHaveBeenCalledWith(srcProgramId.toString(), [
+            expect.objectContaining({ signature: 'signature_2' }),
+            expect.objectContaining({ signature: 'signature_2' })
+        ]);
+        consoleErrorSpy.mockRestore();
+    });
+});